@@ -0,0 +1,77 @@
+/**
+ * A binary heap that pops the item with the highest priority first.
+ *
+ * The priority is given by a user-provided ordering, so that any item type
+ * can be stored without boxing.
+ */
+export class BinaryHeap<T> {
+  #items: T[] = [];
+  #precedes: (x: T, y: T) => boolean;
+
+  /**
+   * Creates an empty heap.
+   * @param precedes A function that returns true if `x` must be popped
+   * before `y`.
+   */
+  constructor(precedes: (x: T, y: T) => boolean) {
+    this.#precedes = precedes;
+  }
+
+  /**
+   * Gets the number of items in the heap.
+   */
+  get length(): number {
+    return this.#items.length;
+  }
+
+  /**
+   * Inserts an item.
+   */
+  push(item: T): void {
+    const items = this.#items;
+    items.push(item);
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.#precedes(items[i], items[parent])) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  /**
+   * Removes and returns the item with the highest priority.
+   */
+  pop(): T | undefined {
+    const items = this.#items;
+    if (items.length <= 1) {
+      return items.pop();
+    }
+
+    const top = items[0];
+    items[0] = items.pop()!;
+
+    let i = 0;
+    while (true) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let first = i;
+      if (left < items.length && this.#precedes(items[left], items[first])) {
+        first = left;
+      }
+      if (right < items.length && this.#precedes(items[right], items[first])) {
+        first = right;
+      }
+      if (first === i) {
+        break;
+      }
+      [items[i], items[first]] = [items[first], items[i]];
+      i = first;
+    }
+
+    return top;
+  }
+}
@@ -0,0 +1,30 @@
+import { assertEquals } from "@std/assert";
+import { BinaryHeap } from "./_binaryheap.ts";
+
+Deno.test(function popsInPriorityOrder() {
+  const heap = new BinaryHeap<number>((x, y) => x > y);
+  for (const x of [5, 1, 4, 1, 5, 9, 2, 6, 5, 3]) {
+    heap.push(x);
+  }
+  assertEquals(heap.length, 10);
+
+  const popped: number[] = [];
+  while (heap.length > 0) {
+    popped.push(heap.pop()!);
+  }
+  assertEquals(popped, [9, 6, 5, 5, 5, 4, 3, 2, 1, 1]);
+  assertEquals(heap.pop(), undefined);
+});
+
+Deno.test(function interleavedPushAndPop() {
+  const heap = new BinaryHeap<number>((x, y) => x < y);
+  heap.push(3);
+  heap.push(1);
+  assertEquals(heap.pop(), 1);
+  heap.push(2);
+  heap.push(0);
+  assertEquals(heap.pop(), 0);
+  assertEquals(heap.pop(), 2);
+  assertEquals(heap.pop(), 3);
+  assertEquals(heap.length, 0);
+});
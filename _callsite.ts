@@ -0,0 +1,44 @@
+/**
+ * The URL of the directory of the library modules.
+ */
+const libraryDirectory = new URL(".", import.meta.url).href;
+
+/**
+ * An internal utility function to capture the call site of the library
+ * function that called it, i.e. the first stack frame outside of the
+ * library modules. It relies on the V8 format of `Error.prototype.stack`.
+ * @returns The call site, e.g. `body (file:///app.ts:12:5)`, or undefined
+ * if the stack has no frame outside of the library.
+ */
+export function captureCallSite(): string | undefined {
+  const stackTraceLimit = Error.stackTraceLimit;
+  // The frames of the library come first and are not counted by the caller.
+  Error.stackTraceLimit = 50;
+  const stack = new Error().stack ?? "";
+  Error.stackTraceLimit = stackTraceLimit;
+
+  // The first line is the message.
+  for (const line of stack.split("\n").slice(1)) {
+    const match = /^\s*at (?:.*\()?(.*?):\d+:\d+\)?$/.exec(line);
+    if (match == null || isLibraryModule(match[1])) {
+      continue;
+    }
+    return line.trim().slice("at ".length);
+  }
+  return undefined;
+}
+
+/**
+ * An internal function to check whether a module belongs to the library:
+ * the entry point and the internal modules, excluding tests.
+ * @param url The URL of the module.
+ * @returns Whether the module belongs to the library.
+ */
+function isLibraryModule(url: string): boolean {
+  if (!url.startsWith(libraryDirectory)) {
+    return false;
+  }
+  const path = url.slice(libraryDirectory.length);
+  return !path.includes("/") &&
+    (path === "mod.ts" || path.startsWith("_")) && !path.endsWith("_test.ts");
+}
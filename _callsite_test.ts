@@ -0,0 +1,15 @@
+import { assert, assertEquals } from "@std/assert";
+import { captureCallSite } from "./_callsite.ts";
+
+Deno.test(function capturesFirstFrameOutsideOfTheLibrary() {
+  const site = captureCallSite();
+  assert(site != null);
+  assert(site.startsWith("capturesFirstFrameOutsideOfTheLibrary ("));
+  assert(site.includes("_callsite_test.ts:"));
+});
+
+Deno.test(function restoresStackTraceLimit() {
+  const stackTraceLimit = Error.stackTraceLimit;
+  captureCallSite();
+  assertEquals(Error.stackTraceLimit, stackTraceLimit);
+});
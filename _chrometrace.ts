@@ -0,0 +1,260 @@
+import type { InvocationDescriptor } from "./_invocation.ts";
+import type { TraceEvent, Tracer } from "./_tracer.ts";
+
+/**
+ * An event in the Chrome Trace Event format. Only the fields the recorder
+ * writes are typed.
+ */
+export type ChromeTraceEvent = {
+  readonly name: string;
+  readonly cat?: string;
+  readonly ph: "X" | "i" | "s" | "f" | "M";
+  readonly ts?: number;
+  readonly dur?: number;
+  readonly pid: number;
+  readonly tid: number;
+  readonly id?: number;
+  readonly s?: "t" | "p" | "g";
+  readonly bp?: "e";
+  readonly args?: Readonly<Record<string, unknown>>;
+};
+
+/**
+ * A trace in the Chrome Trace Event format, which Perfetto and
+ * `chrome://tracing` open.
+ */
+export type ChromeTrace = {
+  readonly traceEvents: readonly ChromeTraceEvent[];
+  readonly displayTimeUnit: "ms";
+};
+
+/**
+ * A recorder of runs in the Chrome Trace Event format.
+ */
+export interface ChromeTraceRecorder {
+  /**
+   * The tracer to give to the context as `ContextOptions.tracer`.
+   */
+  readonly tracer: Tracer;
+  /**
+   * A method to get the trace recorded so far. As it is named `toJSON`,
+   * `JSON.stringify(recorder)` writes the trace file.
+   * @returns The recorded trace.
+   */
+  toJSON(): ChromeTrace;
+  /**
+   * A method to drop the events recorded so far.
+   */
+  clear(): void;
+}
+
+/**
+ * An internal type of an invocation that started and has not ended yet.
+ */
+type RunningInvocation = {
+  lane: number;
+  startTime: number;
+};
+
+/**
+ * An internal type of the invocation that wrote a handle in the current run.
+ */
+type Producer = {
+  lane: number;
+  endTime: number;
+};
+
+const pid = 1;
+// The track of the runs themselves, where the instant events go as well.
+// The invocations are placed on the tracks after it.
+const runTrack = 0;
+
+/**
+ * Creates a recorder writing the runs on a context in the Chrome Trace Event
+ * format. Each run is a slice on the first track, and each invocation is a
+ * slice on one of the tracks after it. An invocation takes the first track
+ * no running invocation occupies, so the number of tracks in use shows how
+ * many invocations ran at the same time. Flow arrows lead from the
+ * invocations writing handles to the ones reading them, and skipped
+ * invocations and intermediate buffers acquired from or released to their
+ * providers are marked with instant events.
+ * @returns The recorder.
+ */
+export function chromeTraceRecorder(): ChromeTraceRecorder {
+  let traceEvents: ChromeTraceEvent[] = [];
+  let runStartTime = 0;
+  let numFlows = 0;
+  const freeLanes: number[] = [];
+  let numLanes = 0;
+  const running = new Map<number, RunningInvocation>();
+  const producers = new Map<number, Producer>();
+
+  const toMicroseconds = (time: number) => time * 1000;
+  const trackNames = (): ChromeTraceEvent[] => {
+    const metadata: ChromeTraceEvent[] = [{
+      name: "process_name",
+      ph: "M",
+      pid,
+      tid: runTrack,
+      args: { name: "proction" },
+    }, {
+      name: "thread_name",
+      ph: "M",
+      pid,
+      tid: runTrack,
+      args: { name: "runs" },
+    }];
+    for (let lane = 0; lane < numLanes; lane++) {
+      metadata.push({
+        name: "thread_name",
+        ph: "M",
+        pid,
+        tid: lane + 1,
+        args: { name: `invocations ${lane + 1}` },
+      });
+    }
+    return metadata;
+  };
+  const acquireLane = () => freeLanes.pop() ?? numLanes++;
+  const releaseLane = (lane: number) => {
+    // Keep the lowest free lane at the end so that the tracks are packed.
+    freeLanes.push(lane);
+    freeLanes.sort((x, y) => y - x);
+  };
+  const instant = (
+    name: string,
+    time: number,
+    args: Record<string, unknown>,
+  ) => {
+    traceEvents.push({
+      name,
+      ph: "i",
+      ts: toMicroseconds(time),
+      pid,
+      tid: runTrack,
+      s: "t",
+      args,
+    });
+  };
+  const startInvocation = (time: number, invocation: InvocationDescriptor) => {
+    const lane = acquireLane();
+    running.set(invocation.invocationID, { lane, startTime: time });
+    for (const inputID of invocation.inputIDs) {
+      const producer = producers.get(inputID);
+      if (producer == null) {
+        continue;
+      }
+      const id = ++numFlows;
+      traceEvents.push({
+        name: "data",
+        cat: "flow",
+        ph: "s",
+        ts: toMicroseconds(producer.endTime),
+        pid,
+        tid: producer.lane + 1,
+        id,
+      }, {
+        name: "data",
+        cat: "flow",
+        ph: "f",
+        ts: toMicroseconds(time),
+        pid,
+        tid: lane + 1,
+        id,
+        bp: "e",
+      });
+    }
+  };
+  const endInvocation = (
+    time: number,
+    invocation: InvocationDescriptor,
+    error: unknown,
+    failed: boolean,
+  ) => {
+    const runningInvocation = running.get(invocation.invocationID);
+    if (runningInvocation == null) {
+      return;
+    }
+    running.delete(invocation.invocationID);
+    const { lane, startTime } = runningInvocation;
+    traceEvents.push({
+      name: invocation.procName || "anonymous",
+      cat: "invocation",
+      ph: "X",
+      ts: toMicroseconds(startTime),
+      dur: toMicroseconds(time - startTime),
+      pid,
+      tid: lane + 1,
+      args: {
+        invocationID: invocation.invocationID,
+        inPlace: invocation.inPlace,
+        ...(failed ? { error: String(error) } : {}),
+      },
+    });
+    releaseLane(lane);
+    for (const outputID of invocation.outputIDs) {
+      producers.set(outputID, { lane, endTime: time });
+    }
+  };
+
+  const tracer = (event: TraceEvent) => {
+    switch (event.type) {
+      case "planStart":
+        runStartTime = event.time;
+        // The handle IDs are unique only within a run.
+        producers.clear();
+        break;
+      case "planEnd":
+        traceEvents.push({
+          name: "run",
+          cat: "run",
+          ph: "X",
+          ts: toMicroseconds(runStartTime),
+          dur: toMicroseconds(event.time - runStartTime),
+          pid,
+          tid: runTrack,
+          args: { succeeded: event.succeeded },
+        });
+        break;
+      case "invocationSkip":
+        instant(
+          `skip ${event.invocation.procName || "anonymous"}`,
+          event.time,
+          { invocationID: event.invocation.invocationID },
+        );
+        break;
+      case "invocationStart":
+        startInvocation(event.time, event.invocation);
+        break;
+      case "invocationEnd":
+        endInvocation(
+          event.time,
+          event.invocation,
+          event.error,
+          "error" in event,
+        );
+        break;
+      case "bufferAcquire":
+      case "bufferRelease":
+        instant(
+          event.type === "bufferAcquire" ? "acquire" : "release",
+          event.time,
+          { handleID: event.handleID, size: event.size },
+        );
+        break;
+      default:
+        break;
+    }
+  };
+
+  return {
+    tracer,
+    toJSON: () => ({
+      traceEvents: [...trackNames(), ...traceEvents],
+      displayTimeUnit: "ms",
+    }),
+    clear: () => {
+      traceEvents = [];
+    },
+  };
+}
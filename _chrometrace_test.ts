@@ -0,0 +1,140 @@
+import { assertEquals } from "@std/assert";
+import { chromeTraceRecorder } from "./_chrometrace.ts";
+import type { InvocationDescriptor } from "./_invocation.ts";
+
+function descriptor(
+  invocationID: number,
+  inputIDs: number[],
+  outputIDs: number[],
+): InvocationDescriptor {
+  return {
+    procID: 1,
+    procName: "add",
+    invocationID,
+    inputIDs,
+    outputIDs,
+    inputKinds: inputIDs.map(() => "intermediate"),
+    outputKinds: outputIDs.map(() => "intermediate"),
+    inPlace: false,
+    numDownstreamInvocations: 0,
+    cost: 1,
+    criticalPathLength: 1,
+  };
+}
+
+Deno.test(async function chromeTrace(t) {
+  const first = descriptor(1, [], [10]);
+  const second = descriptor(2, [], [11]);
+  const third = descriptor(3, [10, 11], [12]);
+  const skipped = descriptor(4, [], [13]);
+
+  const recorder = chromeTraceRecorder();
+  const { tracer } = recorder;
+  tracer({ type: "planStart", time: 0, numInvocations: 4 });
+  tracer({ type: "invocationSkip", time: 0, invocation: skipped });
+  tracer({ type: "invocationStart", time: 1, invocation: first });
+  tracer({ type: "invocationStart", time: 1, invocation: second });
+  tracer({ type: "bufferAcquire", time: 1.5, handleID: 10, size: 8 });
+  tracer({ type: "invocationEnd", time: 2, invocation: first });
+  tracer({
+    type: "invocationEnd",
+    time: 3,
+    invocation: second,
+    error: new Error("fail"),
+  });
+  tracer({ type: "invocationStart", time: 4, invocation: third });
+  tracer({ type: "invocationEnd", time: 5, invocation: third });
+  tracer({ type: "planEnd", time: 6, succeeded: true });
+
+  await t.step(function namesTracks() {
+    const metadata = recorder.toJSON().traceEvents.filter((event) =>
+      event.ph === "M"
+    );
+    assertEquals(metadata.map((event) => [event.tid, event.args?.name]), [
+      [0, "proction"],
+      [0, "runs"],
+      [1, "invocations 1"],
+      [2, "invocations 2"],
+    ]);
+  });
+
+  await t.step(function placesConcurrentInvocationsOnTracks() {
+    const slices = recorder.toJSON().traceEvents.filter((event) =>
+      event.ph === "X"
+    );
+    assertEquals(slices, [{
+      name: "add",
+      cat: "invocation",
+      ph: "X",
+      ts: 1000,
+      dur: 1000,
+      pid: 1,
+      tid: 1,
+      args: { invocationID: 1, inPlace: false },
+    }, {
+      name: "add",
+      cat: "invocation",
+      ph: "X",
+      ts: 1000,
+      dur: 2000,
+      pid: 1,
+      tid: 2,
+      args: { invocationID: 2, inPlace: false, error: "Error: fail" },
+    }, {
+      name: "add",
+      cat: "invocation",
+      ph: "X",
+      ts: 4000,
+      dur: 1000,
+      pid: 1,
+      tid: 1,
+      args: { invocationID: 3, inPlace: false },
+    }, {
+      name: "run",
+      cat: "run",
+      ph: "X",
+      ts: 0,
+      dur: 6000,
+      pid: 1,
+      tid: 0,
+      args: { succeeded: true },
+    }]);
+  });
+
+  await t.step(function drawsFlowsAlongDataDependencies() {
+    const flows = recorder.toJSON().traceEvents.filter((event) =>
+      event.ph === "s" || event.ph === "f"
+    );
+    assertEquals(
+      flows.map(({ ph, ts, tid, id }) => ({ ph, ts, tid, id })),
+      [
+        { ph: "s", ts: 2000, tid: 1, id: 1 },
+        { ph: "f", ts: 4000, tid: 1, id: 1 },
+        { ph: "s", ts: 3000, tid: 2, id: 2 },
+        { ph: "f", ts: 4000, tid: 1, id: 2 },
+      ],
+    );
+  });
+
+  await t.step(function marksSkipsAndBuffers() {
+    const instants = recorder.toJSON().traceEvents.filter((event) =>
+      event.ph === "i"
+    );
+    assertEquals(instants.map(({ name, ts, args }) => ({ name, ts, args })), [
+      { name: "skip add", ts: 0, args: { invocationID: 4 } },
+      { name: "acquire", ts: 1500, args: { handleID: 10, size: 8 } },
+    ]);
+  });
+
+  await t.step(function clears() {
+    recorder.clear();
+    assertEquals(
+      recorder.toJSON().traceEvents.filter((event) => event.ph !== "M"),
+      [],
+    );
+    assertEquals(
+      JSON.parse(JSON.stringify(recorder)).displayTimeUnit,
+      "ms",
+    );
+  });
+});
@@ -96,6 +96,18 @@ export class DelayedRc<T> {
     return this.#count === 1;
   }
 
+  /**
+   * Replaces the held object, destroying the previous one. The reference
+   * count is kept.
+   * @param managedObject The object to hold instead.
+   */
+  replace(managedObject: T): void {
+    this.#assertIsValid();
+
+    this.#destroyManagedObject();
+    this.#managedObject = managedObject;
+  }
+
   /**
    * Extracts ownership of the managed object without triggering destruction.
    * After this call, the container is invalidated.
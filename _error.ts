@@ -1,3 +1,5 @@
+import type { InvocationDescriptor } from "./_invocation.ts";
+
 /**
  * A base class for errors in Proction.
  */
@@ -21,6 +23,115 @@ export class PreconditionError extends BaseError {}
  */
 export class AssertionError extends BaseError {}
 
+/**
+ * An error indicating that a run was aborted through its AbortSignal.
+ * The abort reason of the signal is kept as `cause`.
+ */
+export class RunAbortedError extends BaseError {}
+
+/**
+ * An error indicating that a queued run was superseded by a run submitted
+ * later with the same coalesce key, and was dropped without being started.
+ */
+export class RunSupersededError extends BaseError {}
+
+/**
+ * An error indicating that an invocation failed. The error thrown or
+ * rejected by the body function, or by the provider of an output, is kept as
+ * `cause`.
+ */
+export class InvocationError extends BaseError {
+  /**
+   * The failed invocation, including its procedure, the chosen body
+   * variant and the kinds of its inputs and outputs.
+   */
+  readonly invocation: InvocationDescriptor;
+  /**
+   * The invocations downstream of the failed invocation that were never
+   * started because of the failure.
+   */
+  readonly unstartedInvocations: readonly InvocationDescriptor[];
+
+  /**
+   * Creates an InvocationError.
+   * @param description The description of the failed invocation in the
+   * message, e.g. `blur(out=frameBuffer, in=image)`.
+   * @param invocation The failed invocation.
+   * @param cause The error of the failed invocation.
+   * @param unstartedInvocations The downstream invocations that were never
+   * started.
+   */
+  constructor(
+    description: string,
+    invocation: InvocationDescriptor,
+    cause: unknown,
+    unstartedInvocations: readonly InvocationDescriptor[],
+  ) {
+    super(
+      `invocation failed in ${description}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause },
+    );
+    this.invocation = invocation;
+    this.unstartedInvocations = unstartedInvocations;
+  }
+}
+
+/**
+ * An error indicating that an invocation exceeded its timeout. It is kept as
+ * the `cause` of the InvocationError of the invocation.
+ */
+export class InvocationTimeoutError extends BaseError {
+  /**
+   * The timeout the invocation exceeded, in milliseconds.
+   */
+  readonly timeout: number;
+
+  /**
+   * Creates an InvocationTimeoutError.
+   * @param timeout The timeout the invocation exceeded, in milliseconds.
+   */
+  constructor(timeout: number) {
+    super(`invocation timed out after ${timeout} ms`);
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * An error indicating that a run stopped starting invocations after the
+ * first invocation failure under the "failFast" policy.
+ */
+export class FailFastError extends BaseError {
+  /**
+   * The errors of the failed invocations, including the ones that failed
+   * while the running invocations were drained. The first one is also kept
+   * as `cause`. The failures of invocations are InvocationErrors.
+   */
+  readonly errors: readonly unknown[];
+  /**
+   * The invocations that were never started because of the failure.
+   */
+  readonly unstartedInvocations: readonly InvocationDescriptor[];
+
+  /**
+   * Creates a FailFastError.
+   * @param errors The errors of the failed invocations.
+   * @param unstartedInvocations The invocations that were never started.
+   */
+  constructor(
+    errors: readonly unknown[],
+    unstartedInvocations: readonly InvocationDescriptor[],
+  ) {
+    super(
+      `invocation failed; ${unstartedInvocations.length} invocations were not started`,
+      { cause: errors[0] },
+    );
+    this.errors = errors;
+    this.unstartedInvocations = unstartedInvocations;
+  }
+}
+
 /**
  * An internal utility function to indicate a value that should never be reached.
  * Used in switch statements to indicate a case that should never be reached.
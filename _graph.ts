@@ -13,6 +13,7 @@ export type DataVersion = Brand<number, "dataVersion">;
 // remaining callable across the two classes in this module.
 const resolveInGraph = Symbol("resolveInGraph");
 const publishRecords = Symbol("publishRecords");
+const publishRecord = Symbol("publishRecord");
 const deleteRecord = Symbol("deleteRecord");
 
 export const generateProcID: () => ProcID = idGenerator((x: number) =>
@@ -41,6 +42,10 @@ export const alwaysChangedDataVersion = -3 as DataVersion;
 // Undefined value used for destination slots where providers are not used.
 export const undefinedProviderID = -1 as DataID;
 
+// Placeholder value used for the named source and destination slots of a
+// compiled plan until an execution binds them to objects.
+export const unboundDataID = -2 as DataID;
+
 /**
  * Maps a caller-managed source version (a non-negative integer) into the
  * graph's version namespace. The given version must be below 2^52.
@@ -263,6 +268,18 @@ export class Graph {
     this.#invocations = pending;
   }
 
+  /**
+   * Publishes a single pending record of a run into the committed history,
+   * keeping the other records. Module-private; called only through the
+   * `publishRecord` symbol by `GraphRun.commitPartially`.
+   */
+  [publishRecord](
+    signature: InvocationSignature,
+    record: InvocationRecord,
+  ): void {
+    this.#invocations.set(signature, record);
+  }
+
   /**
    * Drops the committed record for a signature. Module-private; called only
    * through the `deleteRecord` symbol by `GraphRun.invalidate`.
@@ -411,7 +428,7 @@ export class GraphRun {
    * Resolves an invocation draft against the recorded history. Assigns data
    * IDs and versions to unresolved outputs, and reports whether the
    * invocation is unchanged since its last recorded resolution. It must not
-   * be called after `commit()`.
+   * be called after `commit()` or `commitPartially()`.
    * @param draft The invocation draft to resolve.
    * @returns The resolved output IDs and versions, and the unchanged flag.
    */
@@ -441,6 +458,30 @@ export class GraphRun {
     this.#graph[publishRecords](this.#pending);
   }
 
+  /**
+   * Commits the records this run resolved for the given drafts only, and
+   * keeps the committed records of the others as they are. It is for a
+   * failed run: the drafts must be of invocations that completed, so that
+   * the published records describe content that was actually produced,
+   * while the records left over still describe the content of the previous
+   * runs or are invalidated.
+   * @param drafts The drafts of the completed invocations.
+   */
+  commitPartially(drafts: Iterable<InvocationDraft>): void {
+    if (this.#committed) {
+      return;
+    }
+    this.#committed = true;
+
+    for (const draft of drafts) {
+      const signature = signatureOf(draft);
+      const record = this.#pending.get(signature);
+      if (record != null) {
+        this.#graph[publishRecord](signature, record);
+      }
+    }
+  }
+
   /**
    * Drops the committed record for a draft whose invocation failed after
    * possibly writing part of its outputs, so the next submission re-executes
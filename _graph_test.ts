@@ -445,3 +445,42 @@ Deno.test(function evictAllRecordsDropsCommittedRecords() {
   const second = run2.resolve(draft);
   assertEquals(second.unchanged, false);
 });
+
+Deno.test(function commitPartiallyPublishesOnlyTheGivenDrafts() {
+  const graph = new Graph();
+  const procID = generateProcID();
+  const sourceID = graph.resolveDataID({});
+  const providerID = graph.resolveDataID(() => {});
+  const draft = (sourceVersion: number, otherID: DataID): InvocationDraft => ({
+    procID,
+    inputIDs: [sourceID, otherID],
+    inputVersions: [
+      versionToSourceDataVersion(sourceVersion),
+      versionToSourceDataVersion(1),
+    ],
+    outputIDs: [unresolvedIntermediateDataID],
+    outputVersions: [unresolvedIntermediateDataVersion],
+    providerIDs: [providerID],
+  });
+  const completedID = graph.resolveDataID({});
+  const failedID = graph.resolveDataID({});
+
+  const run1 = graph.beginRun();
+  const firstFailed = run1.resolve(draft(1, failedID));
+  run1.commit();
+
+  // Only the completed invocation is published; the record of the failed
+  // one is kept as it was instead of being evicted.
+  const run2 = graph.beginRun();
+  const secondCompleted = run2.resolve(draft(2, completedID));
+  run2.resolve(draft(2, failedID));
+  run2.commitPartially([draft(2, completedID)]);
+
+  const run3 = graph.beginRun();
+  const thirdCompleted = run3.resolve(draft(2, completedID));
+  assertEquals(thirdCompleted.unchanged, true);
+  assertEquals(thirdCompleted.outputIDs, secondCompleted.outputIDs);
+  const thirdFailed = run3.resolve(draft(1, failedID));
+  assertEquals(thirdFailed.unchanged, true);
+  assertEquals(thirdFailed.outputIDs, firstFailed.outputIDs);
+});
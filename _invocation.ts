@@ -0,0 +1,74 @@
+/**
+ * The kind of the data behind a handle.
+ *
+ * - `"source"`: a caller-managed object read by invocations (`$s`)
+ * - `"destination"`: a caller-managed object written by an invocation (`$d`)
+ * - `"intermediate"`: a buffer supplied by a provider for a single run
+ * - `"externalIntermediate"`: a caller-managed buffer used as an
+ *   intermediate (`$e`)
+ * - `"memoizedIntermediate"`: a buffer supplied by a provider and retained
+ *   across runs
+ */
+export type HandleKind =
+  | "source"
+  | "destination"
+  | "intermediate"
+  | "externalIntermediate"
+  | "memoizedIntermediate";
+
+/**
+ * A description of an invocation, i.e. one call of an indirect procedure
+ * within a run, used to identify it outside of the run.
+ */
+export type InvocationDescriptor = {
+  /**
+   * The ID of the indirect procedure. It is unique within the process.
+   */
+  readonly procID: number;
+  /**
+   * The name of the indirect procedure (see `ProcOptions.name`).
+   */
+  readonly procName: string;
+  /**
+   * The ID of the invocation. It is unique within the run.
+   */
+  readonly invocationID: number;
+  /**
+   * The IDs of the input handles, in the order of the inputs. They are
+   * unique within the run, so they tie an invocation to the ones writing
+   * its inputs.
+   */
+  readonly inputIDs: readonly number[];
+  /**
+   * The IDs of the output handles, in the order of the outputs.
+   */
+  readonly outputIDs: readonly number[];
+  /**
+   * The kinds of the input handles, in the order of the inputs.
+   */
+  readonly inputKinds: readonly HandleKind[];
+  /**
+   * The kinds of the output handles, in the order of the outputs.
+   */
+  readonly outputKinds: readonly HandleKind[];
+  /**
+   * Whether the in-place variant of the body is chosen.
+   */
+  readonly inPlace: boolean;
+  /**
+   * The number of distinct invocations in the run that read an output of
+   * this invocation, i.e. the invocations it can unblock.
+   */
+  readonly numDownstreamInvocations: number;
+  /**
+   * The cost hint of the indirect procedure (see `ProcOptions.cost`).
+   */
+  readonly cost: number;
+  /**
+   * The remaining critical-path length: the cost of this invocation plus
+   * the largest total cost along a chain of invocations downstream of it in
+   * the run. Starting invocations with longer remaining paths first tends to
+   * shorten the whole run.
+   */
+  readonly criticalPathLength: number;
+};
@@ -0,0 +1,197 @@
+import type { HandleKind } from "./_invocation.ts";
+
+/**
+ * A description of the wiring of a plan: the handles and the invocations
+ * reading and writing them. It contains only plain data, so it can be
+ * serialized as JSON.
+ */
+export type PlanGraph = {
+  /**
+   * The handles of the plan.
+   */
+  readonly handles: readonly PlanGraphHandle[];
+  /**
+   * The invocations of the plan, producers before their consumers.
+   */
+  readonly invocations: readonly PlanGraphInvocation[];
+};
+
+/**
+ * A handle in a PlanGraph.
+ */
+export type PlanGraphHandle = {
+  /**
+   * The ID of the handle. It is unique within the plan.
+   */
+  readonly id: number;
+  /**
+   * The kind of the data behind the handle.
+   */
+  readonly kind: HandleKind;
+  /**
+   * The label given to the handle, if any.
+   */
+  readonly label?: string;
+};
+
+/**
+ * An invocation in a PlanGraph.
+ */
+export type PlanGraphInvocation = {
+  /**
+   * The ID of the invocation. It is unique within the plan.
+   */
+  readonly id: number;
+  /**
+   * The ID of the indirect procedure. It is unique within the process.
+   */
+  readonly procID: number;
+  /**
+   * The name of the indirect procedure.
+   */
+  readonly procName: string;
+  /**
+   * The IDs of the input handles, in the order of the inputs.
+   */
+  readonly inputs: readonly number[];
+  /**
+   * The IDs of the output handles, in the order of the outputs.
+   */
+  readonly outputs: readonly number[];
+  /**
+   * Whether the in-place variant of the body would be chosen.
+   */
+  readonly inPlace: boolean;
+  /**
+   * Whether the incremental pass would skip the invocation because its
+   * outputs are up to date.
+   */
+  readonly skipped: boolean;
+};
+
+/**
+ * Renders a plan graph in the DOT language of Graphviz. Handles are drawn
+ * as ellipses and invocations as boxes; skipped invocations are dashed.
+ * @param graph The plan graph to render.
+ * @returns The DOT source.
+ */
+export function toDot(graph: PlanGraph): string {
+  const lines = ["digraph plan {", "  rankdir=LR;"];
+  for (const handle of graph.handles) {
+    lines.push(
+      `  h${handle.id} [shape=ellipse, label=${
+        dotString(handleLabel(handle, "\n"))
+      }];`,
+    );
+  }
+  for (const invocation of graph.invocations) {
+    const style = invocation.skipped ? ", style=dashed" : "";
+    lines.push(
+      `  i${invocation.id} [shape=box${style}, label=${
+        dotString(invocationLabel(invocation, "\n"))
+      }];`,
+    );
+  }
+  for (const invocation of graph.invocations) {
+    for (const input of invocation.inputs) {
+      lines.push(`  h${input} -> i${invocation.id};`);
+    }
+    for (const output of invocation.outputs) {
+      lines.push(`  i${invocation.id} -> h${output};`);
+    }
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders a plan graph as a Mermaid flowchart. Handles are drawn as
+ * stadiums and invocations as rectangles; skipped invocations are dashed.
+ * @param graph The plan graph to render.
+ * @returns The Mermaid source.
+ */
+export function toMermaid(graph: PlanGraph): string {
+  const lines = ["flowchart LR"];
+  for (const handle of graph.handles) {
+    lines.push(
+      `  h${handle.id}([${mermaidString(handleLabel(handle, "<br>"))}])`,
+    );
+  }
+  for (const invocation of graph.invocations) {
+    lines.push(
+      `  i${invocation.id}[${
+        mermaidString(invocationLabel(invocation, "<br>"))
+      }]`,
+    );
+  }
+  for (const invocation of graph.invocations) {
+    for (const input of invocation.inputs) {
+      lines.push(`  h${input} --> i${invocation.id}`);
+    }
+    for (const output of invocation.outputs) {
+      lines.push(`  i${invocation.id} --> h${output}`);
+    }
+  }
+  const skipped = graph.invocations.filter((invocation) => invocation.skipped);
+  if (skipped.length > 0) {
+    lines.push("  classDef skipped stroke-dasharray: 5 5");
+    lines.push(
+      `  class ${
+        skipped.map((invocation) => `i${invocation.id}`).join(",")
+      } skipped`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * An internal function to label a handle.
+ * @param handle The handle to label.
+ * @param separator The line separator of the output format.
+ * @returns The label.
+ */
+function handleLabel(handle: PlanGraphHandle, separator: string): string {
+  const kindAndID = `${handle.kind} #${handle.id}`;
+  return handle.label != null
+    ? `${handle.label}${separator}${kindAndID}`
+    : kindAndID;
+}
+
+/**
+ * An internal function to label an invocation with its annotations.
+ * @param invocation The invocation to label.
+ * @param separator The line separator of the output format.
+ * @returns The label.
+ */
+function invocationLabel(
+  invocation: PlanGraphInvocation,
+  separator: string,
+): string {
+  const lines = [`${invocation.procName || "anonymous"} #${invocation.id}`];
+  if (invocation.inPlace) {
+    lines.push("in-place");
+  }
+  if (invocation.skipped) {
+    lines.push("skipped");
+  }
+  return lines.join(separator);
+}
+
+/**
+ * An internal function to quote a string in the DOT language.
+ * @param s The string to quote.
+ * @returns The quoted string.
+ */
+function dotString(s: string): string {
+  return `"${s.replace(/["\\]/g, "\\$&").replace(/\n/g, "\\n")}"`;
+}
+
+/**
+ * An internal function to quote a string in Mermaid. Quotes are written as
+ * entity codes, which Mermaid decodes in labels.
+ * @param s The string to quote.
+ * @returns The quoted string.
+ */
+function mermaidString(s: string): string {
+  return `"${s.replace(/"/g, "#quot;")}"`;
+}
@@ -0,0 +1,89 @@
+import { assertEquals } from "@std/assert";
+import { type PlanGraph, toDot, toMermaid } from "./_planexport.ts";
+
+const graph: PlanGraph = {
+  handles: [
+    { id: 1, kind: "source" },
+    { id: 2, kind: "intermediate" },
+    { id: 3, kind: "destination", label: "out" },
+  ],
+  invocations: [
+    {
+      id: 1,
+      procID: 10,
+      procName: "add",
+      inputs: [1, 1],
+      outputs: [2],
+      inPlace: false,
+      skipped: true,
+    },
+    {
+      id: 2,
+      procID: 11,
+      procName: "",
+      inputs: [2],
+      outputs: [3],
+      inPlace: true,
+      skipped: false,
+    },
+  ],
+};
+
+Deno.test(function rendersDot() {
+  assertEquals(
+    toDot(graph),
+    `digraph plan {
+  rankdir=LR;
+  h1 [shape=ellipse, label="source #1"];
+  h2 [shape=ellipse, label="intermediate #2"];
+  h3 [shape=ellipse, label="out\\ndestination #3"];
+  i1 [shape=box, style=dashed, label="add #1\\nskipped"];
+  i2 [shape=box, label="anonymous #2\\nin-place"];
+  h1 -> i1;
+  h1 -> i1;
+  i1 -> h2;
+  h2 -> i2;
+  i2 -> h3;
+}
+`,
+  );
+});
+
+Deno.test(function rendersMermaid() {
+  assertEquals(
+    toMermaid(graph),
+    `flowchart LR
+  h1(["source #1"])
+  h2(["intermediate #2"])
+  h3(["out<br>destination #3"])
+  i1["add #1<br>skipped"]
+  i2["anonymous #2<br>in-place"]
+  h1 --> i1
+  h1 --> i1
+  i1 --> h2
+  h2 --> i2
+  i2 --> h3
+  classDef skipped stroke-dasharray: 5 5
+  class i1 skipped
+`,
+  );
+});
+
+Deno.test(function escapesLabels() {
+  const quoted: PlanGraph = {
+    handles: [],
+    invocations: [{
+      ...graph.invocations[1],
+      procName: 'say "hi" \\',
+      inPlace: false,
+    }],
+  };
+  assertEquals(
+    toDot(quoted).split("\n")[2],
+    '  i2 [shape=box, label="say \\"hi\\" \\\\ #2"];',
+  );
+  assertEquals(
+    toMermaid(quoted).split("\n")[1],
+    '  i2["say #quot;hi#quot; \\ #2"]',
+  );
+});
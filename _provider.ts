@@ -18,6 +18,17 @@ export type AcquireFn<T, Args extends readonly unknown[]> = (
  */
 export type ReleaseFn<T> = (x: T) => void;
 
+/**
+ * A function to estimate the size of a resource before acquiring it.
+ * @typeparam Args The types of the arguments SizeFn takes.
+ * @param args The arguments the resource would be acquired with.
+ * @returns The size of the resource in caller-defined units, a non-negative
+ * finite number.
+ */
+export type SizeFn<Args extends readonly unknown[]> = (
+  ...args: Args
+) => number;
+
 /**
  * A wrapper that holds a resource and provides a way to dispose of it.
  * @typeparam T The type of the resource held by the DisposableWrap.
@@ -29,6 +40,13 @@ export interface DisposableWrap<T> {
    */
   get body(): T;
 
+  /**
+   * The size of the resource in caller-defined units. Reading it must not
+   * acquire the resource. Memory budgets of contexts only account for
+   * resources reporting their sizes.
+   */
+  readonly size?: number;
+
   /**
    * Disposes of the resource held by the DisposableWrap.
    */
@@ -48,16 +66,29 @@ export type ProvideFn<T, Args extends readonly unknown[]> = (
 
 /**
  * Creates a ProvideFn combining an AcquireFn and a ReleaseFn.
+ * When a SizeFn is given, the DisposableWrap reports the size and the
+ * resource is acquired lazily on the first access to its body, so that a
+ * scheduler can weigh the resource before it occupies memory.
  * @typeparam T The type of the acquired resource.
  * @typeparam Args The types of the arguments ProvideFn takes.
  * @param acquire A function to acquire a resource.
  * @param release A function to release a resource.
+ * @param size A function to estimate the size of a resource.
  * @returns A ProvideFn that acquires a resource wrapped by DisposableWrap.
  */
 export function provider<T, Args extends readonly unknown[]>(
   acquire: AcquireFn<T, Args>,
   release: ReleaseFn<T>,
+  size?: SizeFn<Args>,
 ): ProvideFn<T, Args> {
+  if (size != null) {
+    return (...args: Args) =>
+      new LazyDisposableWrapImpl(
+        () => acquire(...args),
+        release,
+        size(...args),
+      );
+  }
   return (...args: Args) => {
     const body = acquire(...args);
     return new DisposableWrapImpl(release, body);
@@ -96,3 +127,48 @@ class DisposableWrapImpl<T> implements DisposableWrap<T> {
     (this.#release)(body);
   }
 }
+
+class LazyDisposableWrapImpl<T> implements DisposableWrap<T> {
+  #disposed: boolean;
+  #acquired: boolean;
+  #body?: T;
+  #acquire: () => T;
+  #release: ReleaseFn<T>;
+  readonly size: number;
+
+  constructor(acquire: () => T, release: ReleaseFn<T>, size: number) {
+    this.#disposed = false;
+    this.#acquired = false;
+    this.#body = undefined;
+    this.#acquire = acquire;
+    this.#release = release;
+    this.size = size;
+  }
+
+  get body(): T {
+    if (this.#disposed) {
+      throw new LogicError("Provided is already released");
+    }
+    if (!this.#acquired) {
+      this.#body = (this.#acquire)();
+      this.#acquired = true;
+    }
+    return this.#body!;
+  }
+
+  [Symbol.dispose]() {
+    if (this.#disposed) {
+      return;
+    }
+
+    const body = this.#body!;
+
+    this.#disposed = true;
+    this.#body = undefined;
+
+    // a resource never accessed was never acquired
+    if (this.#acquired) {
+      (this.#release)(body);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * A first-in first-out queue with amortized constant-time operations.
+ *
+ * Unlike `Array.prototype.shift`, removing the first item does not move the
+ * rest of the items on every call.
+ */
+export class Queue<T> {
+  #items: (T | undefined)[] = [];
+  #head = 0;
+
+  /**
+   * Gets the number of items in the queue.
+   */
+  get length(): number {
+    return this.#items.length - this.#head;
+  }
+
+  /**
+   * Appends an item to the end of the queue.
+   */
+  push(item: T): void {
+    this.#items.push(item);
+  }
+
+  /**
+   * Returns the first item without removing it.
+   */
+  peek(): T | undefined {
+    return this.#items[this.#head];
+  }
+
+  /**
+   * Removes and returns the first item.
+   */
+  shift(): T | undefined {
+    if (this.#head >= this.#items.length) {
+      return undefined;
+    }
+
+    const item = this.#items[this.#head];
+    this.#items[this.#head] = undefined;
+    this.#head++;
+
+    // Drop the consumed slots once they make up the larger half, so that
+    // the storage stays proportional to the number of queued items.
+    if (this.#head * 2 >= this.#items.length) {
+      this.#items = this.#items.slice(this.#head);
+      this.#head = 0;
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,36 @@
+import { assertEquals } from "@std/assert";
+import { Queue } from "./_queue.ts";
+
+Deno.test(function shiftsInPushOrder() {
+  const queue = new Queue<number>();
+  for (let i = 0; i < 10; i++) {
+    queue.push(i);
+  }
+  assertEquals(queue.length, 10);
+  assertEquals(queue.peek(), 0);
+
+  const shifted: number[] = [];
+  while (queue.length > 0) {
+    shifted.push(queue.shift()!);
+  }
+  assertEquals(shifted, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  assertEquals(queue.shift(), undefined);
+  assertEquals(queue.peek(), undefined);
+});
+
+Deno.test(function interleavedPushAndShift() {
+  const queue = new Queue<number>();
+  queue.push(0);
+  queue.push(1);
+  assertEquals(queue.shift(), 0);
+  queue.push(2);
+  assertEquals(queue.shift(), 1);
+  queue.push(3);
+  queue.push(4);
+  assertEquals(queue.shift(), 2);
+  assertEquals(queue.peek(), 3);
+  assertEquals(queue.length, 2);
+  assertEquals(queue.shift(), 3);
+  assertEquals(queue.shift(), 4);
+  assertEquals(queue.length, 0);
+});
@@ -1,3 +1,7 @@
+import { BinaryHeap } from "./_binaryheap.ts";
+import { PreconditionError } from "./_error.ts";
+import type { InvocationDescriptor } from "./_invocation.ts";
+
 /**
  * The scheduler interface for tasks corresponding to invocations
  */
@@ -5,11 +9,111 @@ export interface Scheduler {
   /**
    * A method to execute a task on the scheduler.
    * @param task The executable task whose dependencies are already resolved.
+   * @param invocation The description of the invocation the task executes.
+   * Schedulers may use it to order or place tasks, and may ignore it.
    * @returns A promise resolves on the task completion.
    */
-  spawn: (task: () => Promise<void>) => Promise<void>;
+  spawn: (
+    task: () => Promise<void>,
+    invocation: InvocationDescriptor,
+  ) => Promise<void>;
 }
 
 export const defaultScheduler: Scheduler = {
   spawn: (task: () => Promise<void>) => task(),
 };
+
+/**
+ * The options of criticalPathScheduler.
+ */
+export type CriticalPathSchedulerOptions = {
+  /**
+   * The maximum number of tasks running at the same time. Defaults to
+   * `navigator.hardwareConcurrency`.
+   */
+  concurrency?: number;
+};
+
+/**
+ * An internal type of a task waiting for a slot in criticalPathScheduler.
+ */
+type PendingTask = {
+  task: () => Promise<void>;
+  priority: number;
+  sequence: number;
+  resolve: () => void;
+  reject: (e: unknown) => void;
+};
+
+/**
+ * Creates a scheduler that runs a bounded number of tasks at the same time
+ * and, whenever a slot frees up, starts the waiting task with the longest
+ * remaining critical path (see `InvocationDescriptor.criticalPathLength`).
+ * Ties are started in submission order. Long dependency chains are thereby
+ * started ahead of cheap leaves, which shortens the whole run when the
+ * concurrency is the bottleneck. The path lengths are weighted by the `cost`
+ * hints of the procs.
+ * @param options The options of the scheduler.
+ * @returns The scheduler.
+ * @throws PreconditionError If the concurrency is less than 1.
+ */
+export function criticalPathScheduler(
+  options?: CriticalPathSchedulerOptions,
+): Scheduler {
+  const concurrency = options?.concurrency ?? navigator.hardwareConcurrency;
+  if (!(concurrency >= 1)) {
+    throw new PreconditionError("concurrency must be at least 1");
+  }
+
+  let running = 0;
+  let sequence = 0;
+  const pending = new BinaryHeap<PendingTask>((x, y) =>
+    x.priority > y.priority ||
+    (x.priority === y.priority && x.sequence < y.sequence)
+  );
+
+  let pumpQueued = false;
+  const pump = () => {
+    pumpQueued = false;
+    while (running < concurrency) {
+      const next = pending.pop();
+      if (next == null) {
+        return;
+      }
+
+      running++;
+      let promise: Promise<void>;
+      try {
+        promise = next.task();
+      } catch (e: unknown) {
+        promise = Promise.reject(e);
+      }
+      promise
+        .then(next.resolve, next.reject)
+        .finally(() => {
+          running--;
+          pump();
+        });
+    }
+  };
+
+  return {
+    spawn: (task, invocation) => {
+      const { promise, resolve, reject } = Promise.withResolvers<void>();
+      pending.push({
+        task,
+        priority: invocation.criticalPathLength,
+        sequence: sequence++,
+        resolve,
+        reject,
+      });
+      // Tasks becoming free together are spawned in one synchronous burst;
+      // deferring the pick lets the whole burst compete for the slots.
+      if (!pumpQueued) {
+        pumpQueued = true;
+        queueMicrotask(pump);
+      }
+      return promise;
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { criticalPathScheduler } from "./_scheduler.ts";
+import type { InvocationDescriptor } from "./_invocation.ts";
+
+function descriptor(criticalPathLength: number): InvocationDescriptor {
+  return {
+    procID: 1,
+    procName: "test",
+    invocationID: 1,
+    inputIDs: [],
+    outputIDs: [],
+    inputKinds: [],
+    outputKinds: [],
+    inPlace: false,
+    numDownstreamInvocations: 0,
+    cost: 1,
+    criticalPathLength,
+  };
+}
+
+Deno.test(async function startsLongestCriticalPathFirst() {
+  const scheduler = criticalPathScheduler({ concurrency: 1 });
+  const log: string[] = [];
+  const task = (name: string) => () => {
+    log.push(name);
+    return Promise.resolve();
+  };
+
+  const spawned = [
+    scheduler.spawn(task("short"), descriptor(1)),
+    scheduler.spawn(task("long"), descriptor(5)),
+    scheduler.spawn(task("middle"), descriptor(3)),
+    scheduler.spawn(task("short again"), descriptor(1)),
+  ];
+  // Tasks spawned together compete for the slot; none starts synchronously.
+  assertEquals(log, []);
+
+  await Promise.all(spawned);
+  assertEquals(log, ["long", "middle", "short", "short again"]);
+});
+
+Deno.test(async function laterTasksWaitForTheSlot() {
+  const scheduler = criticalPathScheduler({ concurrency: 1 });
+  const log: string[] = [];
+  const { promise: blocker, resolve: unblock } = Promise.withResolvers<
+    void
+  >();
+
+  const first = scheduler.spawn(async () => {
+    log.push("first");
+    await blocker;
+  }, descriptor(1));
+  await Promise.resolve();
+  assertEquals(log, ["first"]);
+
+  const second = scheduler.spawn(() => {
+    log.push("second");
+    return Promise.resolve();
+  }, descriptor(10));
+  await Promise.resolve();
+  assertEquals(log, ["first"]);
+
+  unblock();
+  await Promise.all([first, second]);
+  assertEquals(log, ["first", "second"]);
+});
+
+Deno.test(async function boundsConcurrency() {
+  const scheduler = criticalPathScheduler({ concurrency: 2 });
+  let running = 0;
+  let maxRunning = 0;
+
+  const spawned = [];
+  for (let i = 0; i < 8; i++) {
+    spawned.push(scheduler.spawn(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+    }, descriptor(i)));
+  }
+  await Promise.all(spawned);
+
+  assertEquals(maxRunning, 2);
+});
+
+Deno.test(async function propagatesTaskFailures() {
+  const scheduler = criticalPathScheduler({ concurrency: 1 });
+  const failed = scheduler.spawn(() => {
+    throw new Error("test");
+  }, descriptor(1));
+  const succeeded = scheduler.spawn(() => Promise.resolve(), descriptor(1));
+
+  let error: unknown;
+  try {
+    await failed;
+  } catch (e: unknown) {
+    error = e;
+  }
+  assertEquals((error as Error).message, "test");
+  // The slot is released after the failure.
+  await succeeded;
+});
+
+Deno.test(function rejectsInvalidConcurrency() {
+  assertThrows(
+    () => criticalPathScheduler({ concurrency: 0 }),
+    Error,
+    "concurrency must be at least 1",
+  );
+});
@@ -0,0 +1,20 @@
+export function add(output: Float64Array, l: Float64Array, r: Float64Array) {
+  for (let i = 0; i < output.length; i++) {
+    output[i] = l[i] + r[i];
+  }
+}
+
+export async function mulAsync(
+  output: Float64Array,
+  l: Float64Array,
+  r: Float64Array,
+) {
+  await Promise.resolve();
+  for (let i = 0; i < output.length; i++) {
+    output[i] = l[i] * r[i];
+  }
+}
+
+export function fail() {
+  throw new Error("test");
+}
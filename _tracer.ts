@@ -0,0 +1,78 @@
+import type { InvocationDescriptor } from "./_invocation.ts";
+
+/**
+ * A function receiving the trace events of the runs on a context. It is
+ * called synchronously while the run proceeds, so it should return quickly,
+ * e.g. by buffering the events. An exception thrown by it is routed to the
+ * context's `reportError` and does not affect the run.
+ */
+export type Tracer = (event: TraceEvent) => void;
+
+/**
+ * An event in the lifecycle of a run. `time` is taken with
+ * `performance.now()`.
+ *
+ * - `"planStart"`: the run starts executing its plan, after the body
+ *   function and the analysis of the wiring.
+ * - `"planEnd"`: the run settled, successfully or not.
+ * - `"inPlaceDecision"`: the body variant of an invocation to execute is
+ *   decided, as told by `invocation.inPlace`.
+ * - `"invocationSkip"`: the incremental pass skipped an invocation.
+ * - `"invocationReady"`: all inputs of an invocation are available, so it
+ *   can be handed to the scheduler.
+ * - `"invocationStart"`, `"invocationEnd"`: the body of an invocation
+ *   started and settled. `error` is set if it failed.
+ * - `"bufferAcquire"`, `"bufferRelease"`: an intermediate buffer is acquired
+ *   from or released to its provider. `handleID` identifies the handle in
+ *   the run that acquired the buffer, even if a later run releases it.
+ * - `"bufferRetain"`: the buffer of a memoized intermediate is retained in
+ *   the context for later runs.
+ * - `"bufferEvict"`: a retained buffer is evicted from the context, before
+ *   it is released.
+ * - `"graphCommit"`: the records of a successful run are committed for
+ *   incremental calculation.
+ * - `"graphInvalidate"`: the record of an invocation is dropped after a
+ *   failed run, so that it is executed again.
+ */
+export type TraceEvent =
+  | {
+    readonly type: "planStart";
+    readonly time: number;
+    readonly numInvocations: number;
+  }
+  | {
+    readonly type: "planEnd";
+    readonly time: number;
+    readonly succeeded: boolean;
+  }
+  | {
+    readonly type:
+      | "inPlaceDecision"
+      | "invocationSkip"
+      | "invocationReady"
+      | "invocationStart"
+      | "graphInvalidate";
+    readonly time: number;
+    readonly invocation: InvocationDescriptor;
+  }
+  | {
+    readonly type: "invocationEnd";
+    readonly time: number;
+    readonly invocation: InvocationDescriptor;
+    readonly error?: unknown;
+  }
+  | {
+    readonly type: "bufferAcquire" | "bufferRelease";
+    readonly time: number;
+    readonly handleID: number;
+    readonly size: number | undefined;
+  }
+  | {
+    readonly type: "bufferRetain";
+    readonly time: number;
+    readonly handleID: number;
+  }
+  | {
+    readonly type: "bufferEvict" | "graphCommit";
+    readonly time: number;
+  };
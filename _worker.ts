@@ -0,0 +1,52 @@
+/// <reference no-default-lib="true" />
+/// <reference lib="deno.worker" />
+
+// The entry point of the workers spawned by WorkerPool. Each request runs
+// one body function exported from a module; modules are imported once per
+// worker.
+
+import {
+  isShared,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./_workerprotocol.ts";
+
+const modules = new Map<string, Promise<Record<string, unknown>>>();
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { moduleURL, exportName, output, inputs } = e.data;
+
+  let response: WorkerResponse;
+  const transfer: Transferable[] = [];
+  try {
+    let module = modules.get(moduleURL);
+    if (module == null) {
+      module = import(moduleURL);
+      modules.set(moduleURL, module);
+    }
+
+    const f = (await module)[exportName];
+    if (typeof f !== "function") {
+      throw new TypeError(
+        `${exportName} is not a function exported from ${moduleURL}`,
+      );
+    }
+    await f(output, ...inputs);
+
+    if (isShared(output)) {
+      response = { ok: true, output: undefined };
+    } else {
+      // The output is a private copy, so its memory is handed over instead
+      // of being copied once more.
+      const buffer = ArrayBuffer.isView(output) ? output.buffer : output;
+      if (buffer instanceof ArrayBuffer) {
+        transfer.push(buffer);
+      }
+      response = { ok: true, output };
+    }
+  } catch (error: unknown) {
+    response = { ok: false, error };
+  }
+
+  self.postMessage(response, transfer);
+};
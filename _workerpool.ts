@@ -0,0 +1,200 @@
+import { PreconditionError } from "./_error.ts";
+import {
+  isBufferLike,
+  isShared,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./_workerprotocol.ts";
+
+/**
+ * The options of WorkerPool.
+ */
+export type WorkerPoolOptions = {
+  /**
+   * The maximum number of workers. Defaults to
+   * `navigator.hardwareConcurrency`.
+   */
+  size?: number;
+};
+
+/**
+ * An internal type of a job waiting for or running on a worker.
+ */
+type Job = {
+  request: WorkerRequest;
+  resolve: (output: unknown) => void;
+  reject: (e: unknown) => void;
+};
+
+/**
+ * An internal type of a worker and the job running on it.
+ */
+type PooledWorker = {
+  worker: Worker;
+  job: Job | null;
+};
+
+/**
+ * A pool of Deno workers running body functions exported from modules.
+ * Workers are spawned lazily up to the pool size and kept until the pool is
+ * disposed of. Each worker runs one body at a time; the other jobs wait in
+ * submission order.
+ *
+ * Inputs are passed by structured clone, so ones on a SharedArrayBuffer are
+ * shared with the worker instead of being copied. An output must be an
+ * ArrayBuffer, a SharedArrayBuffer or a view on one of them: a shared output
+ * is written by the worker in place, and any other output is transferred
+ * back from the worker and copied into the original.
+ */
+export class WorkerPool implements Disposable {
+  #size: number;
+  #workers: PooledWorker[];
+  #queue: Job[];
+  #disposed: boolean;
+
+  /**
+   * Creates a worker pool.
+   * @param options The options of the pool.
+   * @throws PreconditionError If the size is less than 1.
+   */
+  constructor(options?: WorkerPoolOptions) {
+    const size = options?.size ?? navigator.hardwareConcurrency;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new PreconditionError("size must be at least 1");
+    }
+    this.#size = size;
+    this.#workers = [];
+    this.#queue = [];
+    this.#disposed = false;
+  }
+
+  /**
+   * Runs a body function exported from a module on a worker.
+   * @param moduleURL The URL of the module exporting the body function.
+   * @param exportName The name of the export of the body function.
+   * @param output The output passed to the body function.
+   * @param inputs The inputs passed to the body function.
+   * @returns A promise resolves when the output is written.
+   * @throws PreconditionError If the output is not a buffer nor a view.
+   * @throws PreconditionError If the pool is disposed of.
+   */
+  exec(
+    moduleURL: string | URL,
+    exportName: string,
+    output: unknown,
+    inputs: readonly unknown[],
+  ): Promise<void> {
+    if (this.#disposed) {
+      return Promise.reject(
+        new PreconditionError("the worker pool is disposed of"),
+      );
+    }
+    if (!isBufferLike(output)) {
+      return Promise.reject(
+        new PreconditionError(
+          "the output of a worker body must be a buffer or a view",
+        ),
+      );
+    }
+
+    const { promise, resolve, reject } = Promise.withResolvers<unknown>();
+    this.#queue.push({
+      request: { moduleURL: moduleURL.toString(), exportName, output, inputs },
+      resolve,
+      reject,
+    });
+    this.#pump();
+
+    return promise.then((written) => {
+      if (!isShared(output)) {
+        copyBytes(output, written as ArrayBuffer | ArrayBufferView);
+      }
+    });
+  }
+
+  /**
+   * Terminates the workers and rejects the jobs not completed yet.
+   */
+  [Symbol.dispose](): void {
+    if (this.#disposed) {
+      return;
+    }
+    this.#disposed = true;
+
+    const error = new PreconditionError("the worker pool is disposed of");
+    for (const pooled of this.#workers) {
+      pooled.worker.terminate();
+      pooled.job?.reject(error);
+    }
+    for (const job of this.#queue) {
+      job.reject(error);
+    }
+    this.#workers = [];
+    this.#queue = [];
+  }
+
+  #pump() {
+    while (this.#queue.length > 0) {
+      const pooled = this.#idleWorker();
+      if (pooled == null) {
+        return;
+      }
+      const job = this.#queue.shift()!;
+      pooled.job = job;
+      pooled.worker.postMessage(job.request);
+    }
+  }
+
+  #idleWorker(): PooledWorker | null {
+    const idle = this.#workers.find((pooled) => pooled.job == null);
+    if (idle != null) {
+      return idle;
+    }
+    if (this.#workers.length >= this.#size) {
+      return null;
+    }
+
+    const worker = new Worker(new URL("./_worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const pooled: PooledWorker = { worker, job: null };
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const job = pooled.job;
+      pooled.job = null;
+      if (e.data.ok) {
+        job?.resolve(e.data.output);
+      } else {
+        job?.reject(e.data.error);
+      }
+      this.#pump();
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      // An uncaught error leaves the worker in an unknown state, so it is
+      // replaced by a fresh one on the next job.
+      e.preventDefault();
+      worker.terminate();
+      this.#workers.splice(this.#workers.indexOf(pooled), 1);
+      pooled.job?.reject(e.error ?? new Error(e.message));
+      this.#pump();
+    };
+    this.#workers.push(pooled);
+    return pooled;
+  }
+}
+
+/**
+ * An internal function to copy the bytes of a written output back into the
+ * original output.
+ * @param dst The original output.
+ * @param src The output written by a worker.
+ */
+function copyBytes(
+  dst: ArrayBuffer | SharedArrayBuffer | ArrayBufferView,
+  src: ArrayBuffer | ArrayBufferView,
+) {
+  const bytes = (x: ArrayBufferLike | ArrayBufferView) =>
+    ArrayBuffer.isView(x)
+      ? new Uint8Array(x.buffer, x.byteOffset, x.byteLength)
+      : new Uint8Array(x);
+  bytes(dst).set(bytes(src));
+}
@@ -0,0 +1,43 @@
+/**
+ * A request from a worker pool to a worker to execute a body function.
+ */
+export type WorkerRequest = {
+  moduleURL: string;
+  exportName: string;
+  output: unknown;
+  inputs: readonly unknown[];
+};
+
+/**
+ * A response from a worker to a worker pool. `output` carries the written
+ * output back unless the output shares its memory with the pool side.
+ */
+export type WorkerResponse =
+  | { ok: true; output: unknown }
+  | { ok: false; error: unknown };
+
+/**
+ * Checks if a value lives on a SharedArrayBuffer, i.e. writes to it in a
+ * worker are visible to the other side without copying.
+ * @param x The value to check.
+ * @returns True if the value is shared, false otherwise.
+ */
+export function isShared(x: unknown): boolean {
+  if (x instanceof SharedArrayBuffer) {
+    return true;
+  }
+  return ArrayBuffer.isView(x) && x.buffer instanceof SharedArrayBuffer;
+}
+
+/**
+ * Checks if a value can be used as an output of a worker body: a buffer or
+ * a view on a buffer, so that its content can be written back in place.
+ * @param x The value to check.
+ * @returns True if the value can be used as an output, false otherwise.
+ */
+export function isBufferLike(
+  x: unknown,
+): x is ArrayBuffer | SharedArrayBuffer | ArrayBufferView {
+  return x instanceof ArrayBuffer || x instanceof SharedArrayBuffer ||
+    ArrayBuffer.isView(x);
+}
@@ -0,0 +1,269 @@
+import { BinaryHeap } from "./_binaryheap.ts";
+import { PreconditionError } from "./_error.ts";
+import type { MiddlewareFn, MiddlewareInfo } from "./mod.ts";
+
+/**
+ * The options of concurrencyLimiter.
+ */
+export type ConcurrencyLimiterOptions = {
+  /**
+   * The maximum number of invocations running inside the middleware at the
+   * same time. Defaults to `navigator.hardwareConcurrency`.
+   */
+  concurrency?: number;
+};
+
+/**
+ * The options of priorityLimiter.
+ */
+export type PriorityLimiterOptions = ConcurrencyLimiterOptions & {
+  /**
+   * The function to get the priority of an invocation. Invocations with
+   * higher priorities are let in first.
+   */
+  priority: (info: MiddlewareInfo) => number;
+};
+
+/**
+ * An internal type of an invocation waiting for a slot in a limiter.
+ */
+type Waiter = {
+  priority: number;
+  sequence: number;
+  resolve: () => void;
+};
+
+/**
+ * Creates a middleware that lets a bounded number of invocations run at the
+ * same time, in the order they arrive. Share one limiter among procs, or
+ * install it on the context, to bound them together.
+ * @param options The options of the limiter.
+ * @returns The middleware.
+ * @throws PreconditionError If the concurrency is less than 1.
+ */
+export function concurrencyLimiter(
+  options?: ConcurrencyLimiterOptions,
+): MiddlewareFn {
+  return priorityLimiter({ ...options, priority: () => 0 });
+}
+
+/**
+ * Creates a middleware that lets a bounded number of invocations run at the
+ * same time and, whenever a slot frees up, lets in the waiting invocation
+ * with the highest priority. Ties are let in in arrival order. Invocations
+ * arriving together, e.g. the consumers freed by one invocation, compete
+ * for the slots as a whole.
+ * @param options The options of the limiter.
+ * @returns The middleware.
+ * @throws PreconditionError If the concurrency is less than 1.
+ */
+export function priorityLimiter(options: PriorityLimiterOptions): MiddlewareFn {
+  const concurrency = options.concurrency ?? navigator.hardwareConcurrency;
+  if (!(concurrency >= 1)) {
+    throw new PreconditionError("concurrency must be at least 1");
+  }
+  const priority = options.priority;
+
+  let running = 0;
+  let sequence = 0;
+  const waiting = new BinaryHeap<Waiter>((x, y) =>
+    x.priority > y.priority ||
+    (x.priority === y.priority && x.sequence < y.sequence)
+  );
+
+  let pumpQueued = false;
+  const pump = () => {
+    pumpQueued = false;
+    while (running < concurrency) {
+      const next = waiting.pop();
+      if (next == null) {
+        return;
+      }
+      running++;
+      next.resolve();
+    }
+  };
+  const schedulePump = () => {
+    if (!pumpQueued) {
+      pumpQueued = true;
+      queueMicrotask(pump);
+    }
+  };
+
+  return async (next, info) => {
+    const { promise, resolve } = Promise.withResolvers<void>();
+    waiting.push({
+      priority: priority(info),
+      sequence: sequence++,
+      resolve,
+    });
+    schedulePump();
+    await promise;
+    try {
+      await next();
+    } finally {
+      running--;
+      schedulePump();
+    }
+  };
+}
+
+/**
+ * The statistics of the invocations of a proc measured by timingMiddleware.
+ */
+export type ProcTimingStats = {
+  /**
+   * The ID of the indirect procedure.
+   */
+  readonly procID: number;
+  /**
+   * The name of the indirect procedure.
+   */
+  readonly procName: string;
+  /**
+   * The number of the measured invocations, failed ones included.
+   */
+  readonly numInvocations: number;
+  /**
+   * The total time of the invocations in milliseconds.
+   */
+  readonly totalTime: number;
+  /**
+   * The shortest time of an invocation in milliseconds.
+   */
+  readonly minTime: number;
+  /**
+   * The longest time of an invocation in milliseconds.
+   */
+  readonly maxTime: number;
+};
+
+/**
+ * A middleware aggregating the time of the invocations per proc.
+ */
+export interface TimingMiddleware {
+  /**
+   * The middleware to install. It measures the time `next` takes, so the
+   * middlewares inside it are measured as well; install it inside limiters
+   * to leave out the waiting.
+   */
+  readonly middleware: MiddlewareFn;
+  /**
+   * A method to get the statistics measured so far.
+   * @returns The statistics of each proc, in the order the first
+   * invocations of the procs settled.
+   */
+  stats(): ProcTimingStats[];
+  /**
+   * A method to drop the statistics measured so far.
+   */
+  reset(): void;
+}
+
+/**
+ * Creates a middleware aggregating the time of the invocations per proc.
+ * @returns The timing middleware.
+ */
+export function timingMiddleware(): TimingMiddleware {
+  let statsByProc = new Map<number, ProcTimingStats>();
+
+  const record = (info: MiddlewareInfo, time: number) => {
+    const stats = statsByProc.get(info.procID);
+    statsByProc.set(
+      info.procID,
+      stats == null
+        ? {
+          procID: info.procID,
+          procName: info.procName,
+          numInvocations: 1,
+          totalTime: time,
+          minTime: time,
+          maxTime: time,
+        }
+        : {
+          ...stats,
+          numInvocations: stats.numInvocations + 1,
+          totalTime: stats.totalTime + time,
+          minTime: Math.min(stats.minTime, time),
+          maxTime: Math.max(stats.maxTime, time),
+        },
+    );
+  };
+
+  return {
+    middleware: async (next, info) => {
+      const startTime = performance.now();
+      try {
+        await next();
+      } finally {
+        record(info, performance.now() - startTime);
+      }
+    },
+    stats: () => [...statsByProc.values()],
+    reset: () => {
+      statsByProc = new Map();
+    },
+  };
+}
+
+/**
+ * An entry written by loggingMiddleware. `time` is taken with
+ * `performance.now()`, and `duration` is in milliseconds.
+ */
+export type LogEntry =
+  | {
+    readonly type: "start";
+    readonly time: number;
+    readonly procName: string;
+    readonly invocationID: number;
+    readonly inPlace: boolean;
+  }
+  | {
+    readonly type: "end";
+    readonly time: number;
+    readonly procName: string;
+    readonly invocationID: number;
+    readonly inPlace: boolean;
+    readonly duration: number;
+    readonly error?: unknown;
+  };
+
+/**
+ * Creates a middleware writing a structured entry when an invocation starts
+ * and when it ends. The errors of the invocations are logged and rethrown.
+ * @param log The function to write an entry. Defaults to `console.log`.
+ * @returns The middleware.
+ */
+export function loggingMiddleware(
+  log: (entry: LogEntry) => void = console.log,
+): MiddlewareFn {
+  return async (next, info) => {
+    const { procName, invocationID, inPlace } = info;
+    const startTime = performance.now();
+    log({ type: "start", time: startTime, procName, invocationID, inPlace });
+    try {
+      await next();
+    } catch (e: unknown) {
+      const time = performance.now();
+      log({
+        type: "end",
+        time,
+        procName,
+        invocationID,
+        inPlace,
+        duration: time - startTime,
+        error: e,
+      });
+      throw e;
+    }
+    const time = performance.now();
+    log({
+      type: "end",
+      time,
+      procName,
+      invocationID,
+      inPlace,
+      duration: time - startTime,
+    });
+  };
+}
@@ -0,0 +1,151 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { delay } from "@std/async";
+import { Context, InvocationError, proc, run } from "./mod.ts";
+import {
+  concurrencyLimiter,
+  type LogEntry,
+  loggingMiddleware,
+  priorityLimiter,
+  timingMiddleware,
+} from "./middlewares.ts";
+import { Box } from "./_testutils/box.ts";
+import { contextOptions } from "./_testutils/testpool.ts";
+
+Deno.test(async function concurrencyLimiterBoundsRunningInvocations(t) {
+  let running = 0;
+  let maxRunning = 0;
+  const slow = proc(
+    async function slow(output: Box<number>, input: Box<number>) {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      output.value = input.value;
+      running--;
+    },
+  );
+
+  await t.step(async function onContext() {
+    maxRunning = 0;
+    const ctx = new Context({
+      ...contextOptions,
+      middlewares: [concurrencyLimiter({ concurrency: 2 })],
+    });
+    const outputs = [...Array(6)].map(() => new Box<number>());
+    await run(ctx, ({ $s, $d }) => {
+      outputs.forEach((output, i) => slow($d(output), $s(Box.withValue(i))));
+    });
+    assertEquals(outputs.map((output) => output.value), [0, 1, 2, 3, 4, 5]);
+    assertEquals(maxRunning, 2);
+  });
+
+  await t.step(function rejectsInvalidConcurrency() {
+    assertThrows(
+      () => concurrencyLimiter({ concurrency: 0 }),
+      Error,
+      "concurrency must be at least 1",
+    );
+  });
+});
+
+Deno.test(async function priorityLimiterLetsInHigherPrioritiesFirst() {
+  const order: string[] = [];
+  const limiter = priorityLimiter({
+    concurrency: 1,
+    priority: (info) => info.procName === "urgent" ? 1 : 0,
+  });
+  const body = async (output: Box<number>, input: Box<number>) => {
+    await delay(1);
+    output.value = input.value;
+  };
+  const logged = (name: string) =>
+    proc(body, {
+      name,
+      middlewares: [limiter, async (next) => {
+        order.push(name);
+        await next();
+      }],
+    });
+  const normal = logged("normal");
+  const urgent = logged("urgent");
+
+  const ctx = new Context(contextOptions);
+  await run(ctx, ({ $s, $d }) => {
+    normal($d(new Box<number>()), $s(Box.withValue(1)));
+    normal($d(new Box<number>()), $s(Box.withValue(2)));
+    urgent($d(new Box<number>()), $s(Box.withValue(3)));
+    urgent($d(new Box<number>()), $s(Box.withValue(4)));
+  });
+  assertEquals(order, ["urgent", "urgent", "normal", "normal"]);
+});
+
+Deno.test(async function timingMiddlewareAggregatesPerProc() {
+  const timing = timingMiddleware();
+  const copy = proc(
+    async function copy(output: Box<number>, input: Box<number>) {
+      await delay(1);
+      output.value = input.value;
+    },
+  );
+  const negate = proc(function negate(output: Box<number>, input: Box<number>) {
+    output.value = -input.value;
+  });
+
+  const ctx = new Context({
+    ...contextOptions,
+    middlewares: [timing.middleware],
+  });
+  await run(ctx, ({ $s, $d }) => {
+    copy($d(new Box<number>()), $s(Box.withValue(1)));
+    copy($d(new Box<number>()), $s(Box.withValue(2)));
+    negate($d(new Box<number>()), $s(Box.withValue(3)));
+  });
+
+  const stats = timing.stats().sort((x, y) =>
+    x.procName.localeCompare(y.procName)
+  );
+  assertEquals(
+    stats.map(({ procName, numInvocations }) => ({ procName, numInvocations })),
+    [
+      { procName: "copy", numInvocations: 2 },
+      { procName: "negate", numInvocations: 1 },
+    ],
+  );
+  for (const { totalTime, minTime, maxTime } of stats) {
+    assert(0 <= minTime && minTime <= maxTime && maxTime <= totalTime);
+  }
+
+  timing.reset();
+  assertEquals(timing.stats(), []);
+});
+
+Deno.test(async function loggingMiddlewareWritesEntries() {
+  const entries: LogEntry[] = [];
+  const fail = proc(function fail(_output: Box<number>) {
+    throw new Error("fail");
+  });
+
+  const ctx = new Context({
+    ...contextOptions,
+    reportError: () => {},
+    middlewares: [loggingMiddleware((entry) => entries.push(entry))],
+  });
+  await assertRejects(
+    () => run(ctx, ({ $d }) => fail($d(new Box<number>()))),
+    InvocationError,
+  );
+
+  assertEquals(
+    entries.map(({ type, procName, invocationID }) => ({
+      type,
+      procName,
+      invocationID,
+    })),
+    [
+      { type: "start", procName: "fail", invocationID: 1 },
+      { type: "end", procName: "fail", invocationID: 1 },
+    ],
+  );
+  const end = entries[1];
+  assert(end.type === "end" && end.error instanceof Error);
+  assert(end.duration >= 0);
+});
@@ -46,15 +46,26 @@
 
 import {
   AssertionError,
+  FailFastError,
+  InvocationError,
+  InvocationTimeoutError,
   LogicError,
   PreconditionError,
+  RunAbortedError,
+  RunSupersededError,
   unreachable,
 } from "./_error.ts";
 import type { Brand } from "./_brand.ts";
-import type { DisposableWrap } from "./_provider.ts";
+import type { HandleKind, InvocationDescriptor } from "./_invocation.ts";
+import type { PlanGraph } from "./_planexport.ts";
+import type { Tracer } from "./_tracer.ts";
+import type { DisposableWrap, ProvideFn } from "./_provider.ts";
 import { DelayedRc } from "./_delayedrc.ts";
+import { Queue } from "./_queue.ts";
 import { idGenerator } from "./_idgenerator.ts";
+import { captureCallSite } from "./_callsite.ts";
 import { defaultScheduler, type Scheduler } from "./_scheduler.ts";
+import type { WorkerPool } from "./_workerpool.ts";
 import {
   alwaysChangedDataVersion,
   type DataID,
@@ -64,6 +75,7 @@ import {
   type GraphRun,
   type InvocationDraft,
   type ProcID,
+  unboundDataID,
   undefinedProviderID,
   unknownDataVersion,
   unresolvedIntermediateDataID,
@@ -75,10 +87,34 @@ export type {
   DisposableWrap,
   ProvideFn,
   ReleaseFn,
+  SizeFn,
 } from "./_provider.ts";
 export { provider } from "./_provider.ts";
-export type { Scheduler } from "./_scheduler.ts";
-export { defaultScheduler } from "./_scheduler.ts";
+export {
+  FailFastError,
+  InvocationError,
+  InvocationTimeoutError,
+  RunAbortedError,
+  RunSupersededError,
+} from "./_error.ts";
+export type { HandleKind, InvocationDescriptor } from "./_invocation.ts";
+export type { CriticalPathSchedulerOptions, Scheduler } from "./_scheduler.ts";
+export { criticalPathScheduler, defaultScheduler } from "./_scheduler.ts";
+export type { WorkerPoolOptions } from "./_workerpool.ts";
+export { WorkerPool } from "./_workerpool.ts";
+export type {
+  PlanGraph,
+  PlanGraphHandle,
+  PlanGraphInvocation,
+} from "./_planexport.ts";
+export { toDot, toMermaid } from "./_planexport.ts";
+export type { TraceEvent, Tracer } from "./_tracer.ts";
+export type {
+  ChromeTrace,
+  ChromeTraceEvent,
+  ChromeTraceRecorder,
+} from "./_chrometrace.ts";
+export { chromeTraceRecorder } from "./_chrometrace.ts";
 
 /**
  * An internal symbol used for the key of the parent plan in a handle.
@@ -205,6 +241,30 @@ export type Version = DataVersion;
  */
 export type SetVersionFn = (version: Version) => void;
 
+/**
+ * A type to represent how a transactional destination is staged. Its
+ * writer writes a staging buffer acquired from `provide` instead of the
+ * destination, and `commit` moves the content into the destination after
+ * the run succeeded, by copying it or by swapping the storage of the two
+ * objects. The staging buffer does not start with the content of the
+ * destination, and it is released after the commit, or without one when
+ * the run fails or is aborted, leaving the destination untouched.
+ * @typeparam T The type of the destination.
+ */
+export type Staging<T> = {
+  /**
+   * The function to acquire a staging buffer.
+   */
+  provide: ProvideFn<T, []>;
+  /**
+   * The function to move the content of a staging buffer into the
+   * destination.
+   * @param destination The destination.
+   * @param staged The staging buffer.
+   */
+  commit(destination: T, staged: T): void;
+};
+
 /**
  * An internal type to represent an invocation.
  */
@@ -213,18 +273,293 @@ type InvocationBodyFn = () => Promise<void>;
  * A type to represent a middleware function. Executions of middlewares
  * may be skipped by the incremental run feature.
  */
-export type MiddlewareFn = (next: () => Promise<void>) => Promise<void>;
+export type MiddlewareFn = (
+  next: () => Promise<void>,
+  info: MiddlewareInfo,
+) => Promise<void>;
+
+/**
+ * A type to represent the invocation a middleware wraps. A new one is
+ * passed to each execution of the middleware chain.
+ */
+export type MiddlewareInfo = {
+  /**
+   * The ID of the indirect procedure.
+   */
+  readonly procID: number;
+  /**
+   * The name of the indirect procedure (see `ProcOptions.name`).
+   */
+  readonly procName: string;
+  /**
+   * The ID of the invocation. It is unique within the run.
+   */
+  readonly invocationID: number;
+  /**
+   * Whether the in-place body of the indirect procedure is executed.
+   */
+  readonly inPlace: boolean;
+  /**
+   * A method to restore the inputs of the invocation, in the order of the
+   * inputs. The body may consume its inputs, so it must be called before
+   * `next`.
+   * @returns The restored inputs.
+   * @throws PreconditionError If `next` has been called.
+   */
+  inputs(): readonly unknown[];
+  /**
+   * A method to restore the outputs the body prepared and wrote, in the
+   * order of the outputs. It must be called after `next` resolves.
+   * @returns The restored outputs.
+   * @throws PreconditionError If the body has not completed.
+   */
+  outputs(): readonly unknown[];
+};
 
 /**
  * A type to represent the options of a proc.
  */
 export type ProcOptions = {
   /**
-   * The middlewares to apply to the indirect procedure.
+   * The name of the indirect procedure in diagnostics such as error
+   * messages and plan exports. Defaults to the name of the body function,
+   * or of the out-of-place body function if there are two.
+   */
+  name?: string;
+  /**
+   * The middlewares to apply to the indirect procedure. They are applied
+   * inside the middlewares of the context.
    */
   middlewares?: MiddlewareFn[];
+  /**
+   * Whether to apply only the middlewares of the proc, not the ones of the
+   * context (see `ContextOptions.middlewares`). Defaults to false.
+   */
+  ignoreContextMiddlewares?: boolean;
+  /**
+   * A hint of the relative cost of an invocation of the indirect procedure,
+   * a non-negative finite number. Priority schedulers such as
+   * criticalPathScheduler weight the critical paths with it. Defaults to 1.
+   */
+  cost?: number;
+  /**
+   * The policy to retry the body of the indirect procedure when it fails.
+   * Defaults to no retry.
+   */
+  retry?: RetryPolicy;
+  /**
+   * The time in milliseconds an invocation of the indirect procedure may
+   * take, a positive number. It overrides the `invocationTimeout` of the
+   * context.
+   */
+  timeout?: number;
+};
+
+/**
+ * A type to represent the policy to retry the body of an indirect procedure
+ * after transient failures. Each retry executes the body with freshly
+ * prepared outputs. Procs with in-place bodies take no retry policy: an
+ * in-place body consumes its input by taking over the buffer, so it could
+ * not be retried.
+ */
+export type RetryPolicy = {
+  /**
+   * The maximum number of attempts, the first one included. A positive
+   * integer.
+   */
+  maxAttempts: number;
+  /**
+   * The delay before a retry in milliseconds, or a function returning it
+   * from the number of the failed attempts so far. Defaults to 0.
+   */
+  backoff?: number | ((numFailedAttempts: number) => number);
+  /**
+   * The function to decide whether a failure is worth retrying. Defaults to
+   * retrying every failure.
+   */
+  retryable?: (error: unknown) => boolean;
 };
 
+/**
+ * An internal function to get the validated retry policy of a proc.
+ * @param procOptions The options of the proc.
+ * @param hasInPlaceBody Whether the proc has an in-place body.
+ * @returns The retry policy, or undefined if the proc does not retry.
+ * @throws PreconditionError If the retry policy is invalid, or given to a
+ * proc with an in-place body.
+ */
+function procRetryPolicy(
+  procOptions: ProcOptions | undefined,
+  hasInPlaceBody: boolean,
+): RetryPolicy | undefined {
+  const retry = procOptions?.retry;
+  if (retry == null) {
+    return undefined;
+  }
+  if (hasInPlaceBody) {
+    throw new PreconditionError(
+      "retry must not be given to a proc with an in-place body",
+    );
+  }
+  if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+    throw new PreconditionError("maxAttempts must be a positive integer");
+  }
+  return retry;
+}
+
+/**
+ * An internal function to execute the attempts of an out-of-place body
+ * until one succeeds, the retry policy gives up or the run is stopped.
+ * @param plan The plan the invocation belongs to.
+ * @param retryPolicy The retry policy of the proc.
+ * @param attempt The function to execute an attempt. `reprepare` is true
+ * for retries, whose outputs are to be prepared again.
+ * @throws The error of the last attempt.
+ */
+function executeAttempts(
+  plan: Plan,
+  retryPolicy: RetryPolicy | undefined,
+  attempt: (reprepare: boolean) => Promise<void>,
+): Promise<void> {
+  if (retryPolicy == null) {
+    return attempt(false);
+  }
+  return retryAttempts(
+    retryPolicy,
+    plan[internalPlanKey].stopSignal,
+    attempt,
+  );
+}
+
+/**
+ * An internal function to execute the attempts of an out-of-place body
+ * under a retry policy. No more attempts are made once the run is stopped,
+ * and the backoff before a retry is cut short then.
+ * @param retryPolicy The retry policy of the proc.
+ * @param stopSignal The signal aborted when the run of the invocation is
+ * stopped.
+ * @param attempt The function to execute an attempt.
+ * @throws The error of the last attempt.
+ */
+async function retryAttempts(
+  retryPolicy: RetryPolicy,
+  stopSignal: AbortSignal,
+  attempt: (reprepare: boolean) => Promise<void>,
+): Promise<void> {
+  const { maxAttempts, backoff = 0, retryable } = retryPolicy;
+  for (let numFailedAttempts = 0;; numFailedAttempts++) {
+    try {
+      return await attempt(numFailedAttempts > 0);
+    } catch (e: unknown) {
+      if (
+        numFailedAttempts + 1 >= maxAttempts ||
+        (retryable != null && !retryable(e)) ||
+        stopSignal.aborted
+      ) {
+        throw e;
+      }
+      const delay = typeof backoff === "function"
+        ? backoff(numFailedAttempts + 1)
+        : backoff;
+      if (delay > 0) {
+        await abortableDelay(delay, stopSignal);
+      }
+      if (stopSignal.aborted) {
+        throw e;
+      }
+    }
+  }
+}
+
+/**
+ * An internal function to wait for a delay, or until a signal is aborted.
+ * @param delay The delay in milliseconds.
+ * @param signal The signal to cut the delay short.
+ */
+function abortableDelay(delay: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * An internal function to get the validated timeout of a proc.
+ * @param procOptions The options of the proc.
+ * @returns The timeout, or undefined to use the one of the context.
+ * @throws PreconditionError If the timeout is invalid.
+ */
+function procTimeout(procOptions: ProcOptions | undefined): number | undefined {
+  const timeout = procOptions?.timeout;
+  if (timeout != null && !(timeout > 0)) {
+    throw new PreconditionError("timeout must be a positive number");
+  }
+  return timeout;
+}
+
+/**
+ * An internal function to get the validated cost hint of a proc.
+ * @param procOptions The options of the proc.
+ * @returns The cost hint.
+ * @throws PreconditionError If the cost hint is invalid.
+ */
+function procCost(procOptions: ProcOptions | undefined): number {
+  const cost = procOptions?.cost ?? 1;
+  if (!Number.isFinite(cost) || cost < 0) {
+    throw new PreconditionError("cost must be a non-negative finite number");
+  }
+  return cost;
+}
+
+/**
+ * An internal type to represent the fields of an invocation shared by all the
+ * invocations of a proc.
+ */
+type ProcInvocationFields = Pick<
+  Invocation,
+  | "procID"
+  | "procName"
+  | "cost"
+  | "middlewares"
+  | "ignoresContextMiddlewares"
+  | "timeout"
+>;
+
+/**
+ * An internal function to create the fields shared by the invocations of a
+ * new proc from its options. Each option of a proc is read here, so that the
+ * proc factories handle them alike.
+ * @param defaultName The name of the proc if the options give none.
+ * @param procOptions The options of the proc.
+ * @param hasInPlaceBody Whether the proc has an in-place body.
+ * @returns The shared fields of the invocations, and the retry policy of the
+ * proc.
+ * @throws PreconditionError If an option is invalid.
+ */
+function createProcInvocationFields(
+  defaultName: string,
+  procOptions: ProcOptions | undefined,
+  hasInPlaceBody: boolean,
+): { fields: ProcInvocationFields; retryPolicy: RetryPolicy | undefined } {
+  const fields: ProcInvocationFields = {
+    procID: generateProcID(),
+    procName: procOptions?.name ?? defaultName,
+    cost: procCost(procOptions),
+    middlewares: procOptions?.middlewares ?? [],
+    ignoresContextMiddlewares: procOptions?.ignoreContextMiddlewares ?? false,
+    timeout: procTimeout(procOptions),
+  };
+  return {
+    fields,
+    retryPolicy: procRetryPolicy(procOptions, hasInPlaceBody),
+  };
+}
+
 // NOTE: The order of preparing outputs and restoring inputs is important,
 // especially for in-place routines.
 //
@@ -258,8 +593,11 @@ export function proc<O, I extends readonly unknown[]>(
   output: Handle<O>,
   ...inputs: { [key in keyof I]: Handle<I[key]> } // expanded for readability of inferred type
 ) => void {
-  const procID = generateProcID();
-  const middlewares = procOptions?.middlewares ?? [];
+  const { fields, retryPolicy } = createProcInvocationFields(
+    f.name,
+    procOptions,
+    false,
+  );
 
   const g = (
     output: Handle<O>,
@@ -271,24 +609,33 @@ export function proc<O, I extends readonly unknown[]>(
     const body = async () => {
       try {
         const restoredInputs = restoreInputs(plan, inputs);
-        const preparedOutputs = prepareOutput(plan, output);
-        await f(preparedOutputs, ...restoredInputs);
+        await executeAttempts(plan, retryPolicy, async (reprepare) => {
+          const preparedOutputs = prepareOutput(plan, output, reprepare);
+          await f(preparedOutputs, ...restoredInputs);
+        });
       } finally {
         decRefArray(plan, inputs);
         decRef(plan, output);
       }
     };
     const invocation: Invocation = {
-      procID,
+      ...fields,
       id,
       inputs,
       outputs: [output],
-      resolveBody: () => applyMiddlewares(body, middlewares),
+      resolveBody: () => ({
+        body: body,
+        inPlace: false,
+        transferredOutputs: [],
+      }),
       // calculated on run preparation
       next: [],
       numBlockers: 0,
       numResolvedBlockers: 0,
       body: null,
+      inPlace: false,
+      transferredOutputs: [],
+      criticalPathLength: 0,
     };
     plan[internalPlanKey].invocations.set(invocation.id, invocation);
   };
@@ -319,8 +666,11 @@ export function procI<IO, I extends readonly unknown[]>(
   input0: Handle<IO>,
   ...restInputs: { [key in keyof I]: Handle<I[key]> } // expanded for readability of inferred type
 ) => void {
-  const procID = generateProcID();
-  const middlewares = procOptions?.middlewares ?? [];
+  const { fields } = createProcInvocationFields(
+    fOutOfPlace.name,
+    procOptions,
+    true,
+  );
 
   const g = (
     output: Handle<IO>,
@@ -364,7 +714,7 @@ export function procI<IO, I extends readonly unknown[]>(
       }
     };
 
-    const resolveBody = (ctx: ResolveContext): () => Promise<void> => {
+    const resolveBody = (ctx: ResolveContext): ResolvedBody => {
       const input0Count = inputConsumerCount(ctx, input0);
 
       if (input0Count === 1) {
@@ -385,14 +735,22 @@ export function procI<IO, I extends readonly unknown[]>(
           input0Slot.type === "intermediate" &&
           outputSlot.type === "intermediate"
         ) {
-          return applyMiddlewares(bodyInPlace, middlewares);
+          return {
+            body: bodyInPlace,
+            inPlace: true,
+            transferredOutputs: [output],
+          };
         }
       }
-      return applyMiddlewares(bodyOutOfPlace, middlewares);
+      return {
+        body: bodyOutOfPlace,
+        inPlace: false,
+        transferredOutputs: [],
+      };
     };
 
     const invocation: Invocation = {
-      procID,
+      ...fields,
       id,
       inputs: [input0, ...restInputs],
       outputs: [output],
@@ -402,6 +760,9 @@ export function procI<IO, I extends readonly unknown[]>(
       numBlockers: 0,
       numResolvedBlockers: 0,
       body: null,
+      inPlace: false,
+      transferredOutputs: [],
+      criticalPathLength: 0,
     };
     plan[internalPlanKey].invocations.set(invocation.id, invocation);
   };
@@ -427,8 +788,11 @@ export function procN<
   outputs: { [key in keyof O]: Handle<O[key]> }, // expanded for readability of inferred type
   ...inputs: { [key in keyof I]: Handle<I[key]> } // expanded for readability of inferred type
 ) => void {
-  const procID = generateProcID();
-  const middlewares = procOptions?.middlewares ?? [];
+  const { fields, retryPolicy } = createProcInvocationFields(
+    f.name,
+    procOptions,
+    false,
+  );
 
   const g = (
     outputs: MappedHandleType<O>,
@@ -440,24 +804,37 @@ export function procN<
     const body = async () => {
       try {
         const restoredInputs = restoreInputs(plan, inputs);
-        const preparedOutputs = prepareMultipleOutput(plan, outputs);
-        await f(preparedOutputs, ...restoredInputs);
+        await executeAttempts(plan, retryPolicy, async (reprepare) => {
+          const preparedOutputs = prepareMultipleOutput(
+            plan,
+            outputs,
+            reprepare,
+          );
+          await f(preparedOutputs, ...restoredInputs);
+        });
       } finally {
         decRefArray(plan, inputs);
         decRefArray(plan, outputs);
       }
     };
     const invocation: Invocation = {
-      procID,
+      ...fields,
       id,
       inputs,
       outputs,
-      resolveBody: () => applyMiddlewares(body, middlewares),
+      resolveBody: () => ({
+        body: body,
+        inPlace: false,
+        transferredOutputs: [],
+      }),
       // calculated on run preparation
       next: [],
       numBlockers: 0,
       numResolvedBlockers: 0,
       body: null,
+      inPlace: false,
+      transferredOutputs: [],
+      criticalPathLength: 0,
     };
     plan[internalPlanKey].invocations.set(invocation.id, invocation);
   };
@@ -498,8 +875,11 @@ export function procNI1<
   input0: Handle<IO>,
   ...restInputs: { [key in keyof I]: Handle<I[key]> } // expanded for readability of inferred type
 ) => void {
-  const procID = generateProcID();
-  const middlewares = procOptions?.middlewares ?? [];
+  const { fields } = createProcInvocationFields(
+    fOutOfPlace.name,
+    procOptions,
+    true,
+  );
 
   const g = (
     outputs: [Handle<IO>, ...MappedHandleType<O>],
@@ -554,7 +934,7 @@ export function procNI1<
       }
     };
 
-    const resolveBody = (ctx: ResolveContext): () => Promise<void> => {
+    const resolveBody = (ctx: ResolveContext): ResolvedBody => {
       const input0Count = inputConsumerCount(ctx, input0);
 
       if (input0Count === 1) {
@@ -575,14 +955,22 @@ export function procNI1<
           input0Slot.type === "intermediate" &&
           output0Slot.type === "intermediate"
         ) {
-          return applyMiddlewares(bodyInPlace, middlewares);
+          return {
+            body: bodyInPlace,
+            inPlace: true,
+            transferredOutputs: [output0],
+          };
         }
       }
-      return applyMiddlewares(bodyOutOfPlace, middlewares);
+      return {
+        body: bodyOutOfPlace,
+        inPlace: false,
+        transferredOutputs: [],
+      };
     };
 
     const invocation: Invocation = {
-      procID,
+      ...fields,
       id,
       inputs: [input0, ...restInputs],
       outputs,
@@ -592,6 +980,9 @@ export function procNI1<
       numBlockers: 0,
       numResolvedBlockers: 0,
       body: null,
+      inPlace: false,
+      transferredOutputs: [],
+      criticalPathLength: 0,
     };
     plan[internalPlanKey].invocations.set(invocation.id, invocation);
   };
@@ -631,8 +1022,11 @@ export function procNIAll<
     ...{ [key in keyof I]: Handle<I[key]> },
   ] // expanded for readability of inferred type
 ) => void {
-  const procID = generateProcID();
-  const middlewares = procOptions?.middlewares ?? [];
+  const { fields } = createProcInvocationFields(
+    fOutOfPlace.name,
+    procOptions,
+    true,
+  );
 
   const g = (
     outputs: MappedHandleType<IO>,
@@ -686,7 +1080,7 @@ export function procNIAll<
       }
     };
 
-    const resolveBody = (ctx: ResolveContext): () => Promise<void> => {
+    const resolveBody = (ctx: ResolveContext): ResolvedBody => {
       let canInPlace = true;
 
       for (let i = 0; i < ioLength; i++) {
@@ -724,13 +1118,21 @@ export function procNIAll<
       }
 
       if (canInPlace) {
-        return applyMiddlewares(bodyInPlace, middlewares);
+        return {
+          body: bodyInPlace,
+          inPlace: true,
+          transferredOutputs: outputs,
+        };
       }
-      return applyMiddlewares(bodyOutOfPlace, middlewares);
+      return {
+        body: bodyOutOfPlace,
+        inPlace: false,
+        transferredOutputs: [],
+      };
     };
 
     const invocation: Invocation = {
-      procID,
+      ...fields,
       id,
       inputs: [...ioInputs, ...additionalInputs],
       outputs: outputs,
@@ -739,6 +1141,9 @@ export function procNIAll<
       numBlockers: 0,
       numResolvedBlockers: 0,
       body: null,
+      inPlace: false,
+      transferredOutputs: [],
+      criticalPathLength: 0,
     };
     plan[internalPlanKey].invocations.set(invocation.id, invocation);
   };
@@ -746,6 +1151,37 @@ export function procNIAll<
   return g;
 }
 
+/**
+ * Creates an indirect procedure which has a single output and runs its body
+ * function on a worker of a pool. The body function is the export named
+ * `exportName` of the module at `moduleURL`, with the same signature as the
+ * body function of `proc`. See WorkerPool for how the inputs and the output
+ * are passed to the worker.
+ * @typeparam O The output type of the indirect procedure.
+ * @typeparam I The list of input types of the indirect procedure.
+ * @param pool The worker pool to run the body function on.
+ * @param moduleURL The URL of the module exporting the body function.
+ * @param exportName The name of the export of the body function.
+ * @param procOptions The options of the proc.
+ * @returns An indirect procedure.
+ */
+export function workerProc<
+  O extends ArrayBuffer | SharedArrayBuffer | ArrayBufferView,
+  I extends readonly unknown[],
+>(
+  pool: WorkerPool,
+  moduleURL: string | URL,
+  exportName: string,
+  procOptions?: ProcOptions,
+): (
+  output: Handle<O>,
+  ...inputs: { [key in keyof I]: Handle<I[key]> } // expanded for readability of inferred type
+) => void {
+  const f = (output: O, ...inputs: I) =>
+    pool.exec(moduleURL, exportName, output, inputs);
+  return proc(f, { ...procOptions, name: procOptions?.name ?? exportName });
+}
+
 /**
  * Converts an indirect procedure which has a single output to an indirect function.
  * @typeparam O The output type of the indirect procedure and the return type of the indirect function.
@@ -955,6 +1391,16 @@ interface ResolveContext {
   readonly plan: Plan;
   readonly consumersByHandle: Map<HandleId, readonly unknown[]>;
 }
+/**
+ * An internal type of the result of body resolution: the executable body,
+ * whether the in-place variant was chosen, and the outputs the in-place
+ * variant takes over from its inputs instead of allocating.
+ */
+interface ResolvedBody {
+  readonly body: () => Promise<void>;
+  readonly inPlace: boolean;
+  readonly transferredOutputs: readonly UntypedHandle[];
+}
 
 /**
  * An internal function to look up the number of consuming input references
@@ -981,14 +1427,22 @@ function inputConsumerCount(
  */
 interface Invocation {
   readonly procID: ProcID;
+  readonly procName: string;
+  readonly cost: number;
+  readonly middlewares: readonly MiddlewareFn[];
+  readonly ignoresContextMiddlewares: boolean;
+  readonly timeout: number | undefined;
   readonly id: InvocationID;
   readonly inputs: readonly UntypedHandle[];
   readonly outputs: readonly UntypedHandle[];
-  readonly resolveBody: (context: ResolveContext) => () => Promise<void>;
+  readonly resolveBody: (context: ResolveContext) => ResolvedBody;
   readonly next: Invocation[];
   numBlockers: number;
   numResolvedBlockers: number;
   body: (() => Promise<void>) | null;
+  inPlace: boolean;
+  transferredOutputs: readonly UntypedHandle[];
+  criticalPathLength: number;
 }
 
 /**
@@ -1009,9 +1463,32 @@ const stateKey = Symbol("state");
 /**
  * An internal type to represent the run state of a context. Runs mutate the
  * shared graph and must not overlap, so the state also acts as the semaphore
- * that rejects overlapping runs.
+ * that rejects or queues overlapping runs. A busy context holds the runs
+ * waiting for it, in the order they were submitted. A run finishing while
+ * other runs are queued hands the context over to the first of them, so the
+ * state goes from "running" to "planning" directly and stays busy until the
+ * queue is empty.
+ */
+type ContextState =
+  | { readonly type: "idle" }
+  | { readonly type: "planning" | "running"; readonly queue: QueuedRun[] };
+
+/**
+ * An internal symbol used for the key of the number of the bodies of a
+ * context being called.
+ */
+const bodyDepthKey = Symbol("bodyDepth");
+
+/**
+ * An internal type of a run waiting in the queue of a context.
  */
-type ContextState = "idle" | "planning" | "running";
+type QueuedRun = {
+  coalesceKey: unknown;
+  // Called when the context is handed over to the run.
+  start: () => void;
+  // Called when the run is dropped from the queue.
+  drop: (e: unknown) => void;
+};
 
 /**
  * An internal symbol used for the key of the buffers of memoized
@@ -1019,6 +1496,37 @@ type ContextState = "idle" | "planning" | "running";
  */
 const retainedBuffersKey = Symbol("retainedBuffers");
 
+/**
+ * An internal symbol used for the key of the retained buffers pinned by the
+ * bodies abandoned after their timeouts in a context.
+ */
+const pinnedBuffersKey = Symbol("pinnedBuffers");
+
+/**
+ * An internal type of a retained buffer pinned by abandoned bodies: the
+ * number of the bodies still reading it, and whether it was evicted
+ * meanwhile, in which case it is released when the last of them settles.
+ */
+type PinnedBuffer = {
+  count: number;
+  evicted: boolean;
+};
+
+/**
+ * An internal symbol used for the key of the buffer counters of the run in
+ * flight in a context.
+ */
+const bufferCountersKey = Symbol("bufferCounters");
+
+/**
+ * An internal type to count the intermediate buffers acquired from and
+ * released to their providers during a run.
+ */
+type BufferCounters = {
+  numAcquired: number;
+  numReleased: number;
+};
+
 /**
  * A context for a Proction program. It is expected to live some long span in an application.
  */
@@ -1034,9 +1542,16 @@ export class Context {
   [graphKey]: Graph = new Graph();
 
   /**
-   * The run state. A new run is accepted only in the "idle" state.
+   * The run state. A new run starts at once only in the "idle" state.
+   */
+  [stateKey]: ContextState = { type: "idle" };
+
+  /**
+   * The number of the body functions and invocation bodies of the runs on
+   * the context being called, until they return or first await. A run
+   * submitted meanwhile is nested in the run in flight.
    */
-  [stateKey]: ContextState = "idle";
+  [bodyDepthKey] = 0;
 
   /**
    * The buffers of memoized intermediates retained across runs, keyed by
@@ -1045,15 +1560,31 @@ export class Context {
    */
   [retainedBuffersKey]: Map<DataID, DisposableWrap<unknown>> = new Map();
 
+  /**
+   * The retained buffers read by the bodies abandoned after their timeouts.
+   * Their release is deferred until the bodies settle, even when they are
+   * evicted or the context is disposed.
+   */
+  [pinnedBuffersKey]: Map<DisposableWrap<unknown>, PinnedBuffer> = new Map();
+
+  /**
+   * The buffer counters of the latest run. Buffers are counted through the
+   * context because a buffer retained by one run may be released by a later
+   * one.
+   */
+  [bufferCountersKey]: BufferCounters = { numAcquired: 0, numReleased: 0 };
+
   /**
    * Releases all buffers retained for memoized intermediates back to their
    * providers. The context remains usable afterwards; later runs simply
    * recompute and retain again. An exception thrown by a release is routed
    * to the context's `reportError`. Disposal must not overlap a run: an
-   * in-flight run may still be reading the retained buffers.
+   * in-flight run may still be reading the retained buffers. The buffers
+   * read by bodies abandoned after their timeouts are released when the
+   * bodies settle.
    */
   [Symbol.dispose](): void {
-    if (this[stateKey] !== "idle") {
+    if (this[stateKey].type !== "idle") {
       throw new PreconditionError(
         "the context must not be disposed while a run is in flight",
       );
@@ -1064,9 +1595,17 @@ export class Context {
   /**
    * Creates a new context.
    * @param options The options of the context.
+   * @throws PreconditionError If the memory budget is negative or the
+   * invocation timeout is not positive.
    */
   constructor(options?: Partial<ContextOptions>) {
     const mergedOptions = { ...defaultContextOptions, ...options };
+    if (!(mergedOptions.memoryBudget >= 0)) {
+      throw new PreconditionError("memoryBudget must be non-negative");
+    }
+    if (!(mergedOptions.invocationTimeout > 0)) {
+      throw new PreconditionError("invocationTimeout must be positive");
+    }
 
     const reportError = mergedOptions.reportError;
     mergedOptions.reportError = (e) => {
@@ -1077,66 +1616,583 @@ export class Context {
       }
     };
 
+    const tracer = mergedOptions.tracer;
+    if (tracer != null) {
+      mergedOptions.tracer = (event) => {
+        try {
+          tracer(event);
+        } catch (e: unknown) {
+          mergedOptions.reportError(e);
+        }
+      };
+    }
+
     this[contextOptionsKey] = mergedOptions;
   }
 }
 
+/**
+ * An internal function to take a context for a run, an execution of a
+ * compiled plan, an inspection or a dry run, moving it to the "planning"
+ * state. While the context is busy, it rejects under the "reject" overlap
+ * policy, and otherwise waits in the queue of the context until the runs
+ * submitted earlier finish. A queued run with the same coalesce key is
+ * superseded, and an aborted one leaves the queue.
+ * @param context The context to take.
+ * @param options The options of the run.
+ * @throws PreconditionError If the context is busy under the "reject"
+ * overlap policy.
+ * @throws RunSupersededError If the run is superseded while queued.
+ * @throws RunAbortedError If the run is aborted while queued.
+ */
+async function acquireContext(
+  context: Context,
+  options: RunOptions | undefined,
+): Promise<void> {
+  const state = context[stateKey];
+  if (state.type === "idle") {
+    context[stateKey] = { type: "planning", queue: [] };
+    return;
+  }
+  if (context[contextOptionsKey].overlapPolicy === "reject") {
+    throw new PreconditionError("runs on a context must not overlap");
+  }
+  // The run in flight may be waiting for a nested run, which would wait for
+  // it in turn forever.
+  if (context[bodyDepthKey] > 0) {
+    throw new PreconditionError(
+      "runs on a context must not be nested in its runs",
+    );
+  }
+
+  const signal = options?.signal;
+  if (signal?.aborted) {
+    throw new RunAbortedError("the run is aborted", { cause: signal.reason });
+  }
+
+  const queue = state.queue;
+  const coalesceKey = options?.coalesceKey;
+  if (coalesceKey !== undefined) {
+    const index = queue.findIndex((queued) =>
+      queued.coalesceKey === coalesceKey
+    );
+    if (index >= 0) {
+      const [superseded] = queue.splice(index, 1);
+      superseded.drop(
+        new RunSupersededError("the run is superseded by a later run"),
+      );
+    }
+  }
+
+  const { promise, resolve, reject } = Promise.withResolvers<void>();
+  const queued: QueuedRun = { coalesceKey, start: resolve, drop: reject };
+  const onAbort = () => {
+    const index = queue.indexOf(queued);
+    if (index >= 0) {
+      queue.splice(index, 1);
+      reject(
+        new RunAbortedError("the run is aborted", { cause: signal?.reason }),
+      );
+    }
+  };
+  queue.push(queued);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    await promise;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * An internal function to give a context back after a run, an execution of
+ * a compiled plan, an inspection or a dry run. The context is handed over to
+ * the first queued run if any, and otherwise becomes idle.
+ * @param context The context to give back.
+ */
+function releaseContext(context: Context): void {
+  const state = context[stateKey];
+  if (state.type === "idle") {
+    throw new LogicError("the context is released twice");
+  }
+  const next = state.queue.shift();
+  if (next == null) {
+    context[stateKey] = { type: "idle" };
+    return;
+  }
+  context[stateKey] = { type: "planning", queue: state.queue };
+  next.start();
+}
+
+/**
+ * An internal function to call a body function or an invocation body of a
+ * run on a context. Until the body returns or first awaits, a run submitted
+ * on the context is known to be nested in the run.
+ * @typeparam T The return type of the body.
+ * @param context The context of the run.
+ * @param body The body to call.
+ * @returns The return value of the body.
+ */
+function callBody<T>(context: Context, body: () => T): T {
+  context[bodyDepthKey]++;
+  try {
+    return body();
+  } finally {
+    context[bodyDepthKey]--;
+  }
+}
+
 /**
  * Runs a Proction program. Indirect routines are expected to be called within the body function.
  * When the promise is resolved, the program is guaranteed to be finished.
+ * The body function may be asynchronous, e.g. to load sources while building
+ * the plan; the plan is submitted once the returned promise resolves, and
+ * handles and invocations must not be created after that.
  * Runs on a context must not overlap: a run submitted while another run of
- * the same context is in flight is rejected, because runs read and update
+ * the same context is in flight, including its body function, is rejected,
+ * or queued under the "queue" overlap policy, because runs read and update
  * the context's incremental records.
  * @param context The Proction context.
  * @param bodyFn The body function of the Proction program.
- * @returns A promise that resolves when all scheduled invocations are finished.
+ * @param options The options of the run.
+ * @returns A promise that resolves to the report of the run when all
+ * scheduled invocations are finished.
+ * @throws RunAbortedError If the run is aborted through `options.signal`.
+ * @throws RunSupersededError If the run is superseded while queued.
  */
 export async function run(
   context: Context,
-  bodyFn: (runContext: RunContext) => void,
-) {
-  const plan: Plan = {
-    context,
-    [internalPlanKey]: new InternalPlan(context),
-  };
-  plan[internalPlanKey].plan = plan;
-  const runContext: RunContext = {
-    $s: (value, version) => source(plan, value, version),
-    $d: (value, version, setVersion) =>
-      destination(plan, value, version, setVersion),
-    $e: (value, version, setVersion) =>
-      externalIntermediate(plan, value, version, setVersion),
-  };
-  bodyFn(runContext);
-  await runPlan(plan);
+  bodyFn: (runContext: RunContext) => void | Promise<void>,
+  options?: RunOptions,
+): Promise<RunReport> {
+  // A run mutates the context's shared graph while invocation bodies run
+  // asynchronously; an overlap would silently corrupt the recorded versions,
+  // so it is rejected or queued instead.
+  await acquireContext(context, options);
+
+  const plan = createPlan(context);
+  try {
+    await callBody(context, () => bodyFn(createRunContext(plan)));
+  } catch (e: unknown) {
+    releaseContext(context);
+    throw e;
+  } finally {
+    plan[internalPlanKey].sealed = true;
+  }
+  return await runPlan(plan, options ?? {});
 }
 
 /**
- * A type to represent the options of a context.
+ * Inspects a Proction program without executing it. The body function is
+ * called like the one of `run`, and the wiring is validated and resolved as
+ * a run would, but no invocation is started and the incremental records are
+ * left untouched. The returned graph is plain data; `toDot` and `toMermaid`
+ * render it for visualization.
+ * Inspections take the context like runs do, so they must not overlap with
+ * runs or other inspections on the same context.
+ * @param context The Proction context.
+ * @param bodyFn The body function of the Proction program.
+ * @returns A promise that resolves to the graph of the plan, annotated with
+ * the chosen body variants and the invocations an incremental run would skip.
+ * @throws PreconditionError If the plan is wired invalidly.
  */
-export type ContextOptions = {
-  /**
-   * The function to report an error. In Proction, exceptions are caught and reported by this function.
-   */
-  reportError: (e: unknown) => void;
-  /**
-   * Whether to assert no leak. If true, additional assertions are added to the program to ensure that all data slots are freed.
-   */
-  assertNoLeak: boolean;
-  /**
-   * The task scheduler
-   */
-  scheduler: Scheduler;
-};
+export async function inspect(
+  context: Context,
+  bodyFn: (runContext: RunContext) => void | Promise<void>,
+): Promise<PlanGraph> {
+  const { plan, dataSlots, order } = await analyzeWithoutExecuting(
+    context,
+    bodyFn,
+  );
+  const { invocations: survivingInvocations, labels } = plan[internalPlanKey];
+  return {
+    handles: dataSlots.map(([id, dataSlot]) => {
+      const label = labels.get(id);
+      return label != null
+        ? { id, kind: dataSlot.type, label }
+        : { id, kind: dataSlot.type };
+    }),
+    invocations: order.map((invocation) => ({
+      id: invocation.id,
+      procID: invocation.procID,
+      procName: invocation.procName,
+      inputs: invocation.inputs.map((input) => input[handleIdKey]),
+      outputs: invocation.outputs.map((output) => output[handleIdKey]),
+      inPlace: invocation.inPlace,
+      skipped: !survivingInvocations.has(invocation.id),
+    })),
+  };
+}
 
 /**
- * The default options of a context.
+ * Reports which invocations a run of a Proction program would execute and
+ * which it would skip, without executing it. The body function is called
+ * like the one of `run`, and the incremental pass resolves the plan against
+ * the recorded versions as a run would, but no body is called, no
+ * intermediate buffer is allocated and the incremental records are left
+ * untouched.
+ * Dry runs take the context like runs do, so they must not overlap with
+ * runs or other dry runs on the same context.
+ * @param context The Proction context.
+ * @param bodyFn The body function of the Proction program.
+ * @returns A promise that resolves to the report, with the invocations in
+ * the order a sequential run could execute them.
+ * @throws PreconditionError If the plan is wired invalidly.
  */
-const defaultContextOptions: ContextOptions = {
-  reportError: () => {},
-  assertNoLeak: false,
-  scheduler: defaultScheduler,
-};
+export async function dryRun(
+  context: Context,
+  bodyFn: (runContext: RunContext) => void | Promise<void>,
+): Promise<DryRunReport> {
+  const { plan, order, pruneResult } = await analyzeWithoutExecuting(
+    context,
+    bodyFn,
+  );
+  const survivingInvocations = plan[internalPlanKey].invocations;
+  const invocations = order.map((invocation): DryRunInvocation => {
+    let reason: DryRunReason;
+    if (pruneResult == null) {
+      reason = "unversioned";
+    } else if (!survivingInvocations.has(invocation.id)) {
+      reason = "upToDate";
+    } else if (pruneResult.unchangedInvocations.has(invocation.id)) {
+      reason = "neededDownstream";
+    } else {
+      reason = "changed";
+    }
+    return {
+      procID: invocation.procID,
+      procName: invocation.procName,
+      invocationID: invocation.id,
+      action: reason === "upToDate" ? "skip" : "execute",
+      reason,
+    };
+  });
+  const numSkipped =
+    invocations.filter((invocation) => invocation.action === "skip").length;
+  return {
+    invocations,
+    numExecuted: invocations.length - numSkipped,
+    numSkipped,
+  };
+}
+
+/**
+ * Compiles a Proction program into a plan that can be executed repeatedly.
+ * The body function wires indirect routines like the one of `run`, but
+ * sources and destinations are named slots instead of objects; each
+ * execution binds them to objects and versions. The wiring is validated,
+ * sorted and resolved into in-place or out-of-place bodies once here, and
+ * executions only reset and bind the plan. An execution behaves as a run of
+ * the same wiring otherwise, including incremental calculation, and
+ * executions must not overlap with each other or with runs on the context.
+ * @param context The Proction context the plan is executed on.
+ * @param bodyFn The body function of the Proction program.
+ * @returns A promise that resolves to the compiled plan.
+ * @throws PreconditionError If the plan is wired invalidly.
+ */
+export async function compile(
+  context: Context,
+  bodyFn: (compileContext: CompileContext) => void | Promise<void>,
+): Promise<CompiledPlan> {
+  const plan = createPlan(context);
+  const internalPlan = plan[internalPlanKey];
+  const sourceHandles = new Map<string, UntypedHandle>();
+  const destinationHandles = new Map<string, UntypedHandle>();
+  const compileContext: CompileContext = {
+    $s: <T extends object>(name: string) => {
+      internalPlan.assertNotSealed();
+      return namedSource(plan, sourceHandles, name) as Handle<T>;
+    },
+    $d: <T extends object>(name: string) => {
+      internalPlan.assertNotSealed();
+      return namedDestination(plan, destinationHandles, name) as Handle<T>;
+    },
+  };
+  try {
+    await bodyFn(compileContext);
+  } finally {
+    internalPlan.sealed = true;
+  }
+
+  const dependencyMaps = analyzePlanWiring(plan);
+  const template: PlanTemplate = {
+    invocations: [...internalPlan.invocations.values()],
+    dataSlots: [...internalPlan.dataSlots],
+    usesVersions: internalPlan.usesVersions,
+  };
+
+  return {
+    sources: [...sourceHandles.keys()],
+    destinations: [...destinationHandles.keys()],
+    execute: async (bindings, options) => {
+      validateBindings(sourceHandles, destinationHandles, bindings);
+      await acquireContext(context, options);
+      if (internalPlan.numAbandonedInvocations > 0) {
+        releaseContext(context);
+        throw new PreconditionError(
+          "an invocation abandoned after its timeout is still running",
+        );
+      }
+
+      try {
+        resetPlan(plan, template);
+        bindPlan(plan, sourceHandles, destinationHandles, bindings);
+      } catch (e: unknown) {
+        releaseContext(context);
+        throw e;
+      }
+      return await runPlan(plan, options ?? {}, dependencyMaps);
+    },
+  };
+}
+
+/**
+ * A type to represent the report of a successful run. Times are in
+ * milliseconds.
+ */
+export type RunReport = {
+  /**
+   * The number of invocations executed.
+   */
+  readonly numExecuted: number;
+  /**
+   * The number of invocations skipped by the incremental pass.
+   */
+  readonly numSkipped: number;
+  /**
+   * The number of executed invocations that ran their in-place body.
+   */
+  readonly numInPlace: number;
+  /**
+   * The executions of each indirect procedure with at least one executed
+   * invocation.
+   */
+  readonly procs: readonly ProcReport[];
+  /**
+   * The time from the start of the run to the end of the analysis of the
+   * wiring, including the body function of `run`.
+   */
+  readonly planningTime: number;
+  /**
+   * The time the incremental pass took.
+   */
+  readonly pruningTime: number;
+  /**
+   * The time from the start of the first invocation to the end of the run.
+   */
+  readonly executionTime: number;
+  /**
+   * The number of intermediate buffers acquired from their providers.
+   */
+  readonly numBuffersAcquired: number;
+  /**
+   * The number of intermediate buffers released to their providers,
+   * including the buffers retained by previous runs and released by this
+   * run.
+   */
+  readonly numBuffersReleased: number;
+  /**
+   * The number of buffers retained by previous runs for memoized
+   * intermediates that executed invocations read instead of recomputing
+   * them.
+   */
+  readonly numRetainedBuffersReused: number;
+  /**
+   * The destination objects whose versions the run changed. A destination
+   * without a version counts as changed whenever the run writes it, and a
+   * destination rewritten with the content its version already describes
+   * does not.
+   */
+  readonly changedDestinations: readonly unknown[];
+};
+
+/**
+ * A type to represent the executions of an indirect procedure in a run.
+ */
+export type ProcReport = {
+  /**
+   * The ID of the indirect procedure. It is unique within the process.
+   */
+  readonly procID: number;
+  /**
+   * The name of the indirect procedure.
+   */
+  readonly procName: string;
+  /**
+   * The number of executed invocations of the indirect procedure.
+   */
+  readonly numInvocations: number;
+  /**
+   * The total wall time of the executions, from the start of each body to
+   * its settlement.
+   */
+  readonly wallTime: number;
+};
+
+/**
+ * A type to represent the options of a run.
+ */
+export type RunOptions = {
+  /**
+   * The signal to abort the run. Once it is aborted, no more invocations are
+   * started. Invocations already running are not interrupted; they can
+   * observe the same signal to return early, and the run waits for them to
+   * settle. Then the run rejects with a RunAbortedError, handling the started
+   * invocations like a failed run: nothing is committed and no version is
+   * reported, unless partial results are committed. A run aborted while
+   * queued leaves the queue and rejects with a RunAbortedError at once.
+   */
+  signal?: AbortSignal;
+  /**
+   * What the run does after an invocation fails. It overrides the
+   * `failurePolicy` of the context.
+   */
+  failurePolicy?: FailurePolicy;
+  /**
+   * Whether a failed or aborted run commits its partial results. It
+   * overrides the `commitPartialResults` of the context.
+   */
+  commitPartialResults?: boolean;
+  /**
+   * The key to coalesce queued runs under the "queue" overlap policy of the
+   * context. A run submitted with a key supersedes the queued run with the
+   * same key, which is dropped without being started and rejects with a
+   * RunSupersededError, e.g. to redo a calculation only for the latest
+   * input. Keys are compared with `===`. Defaults to undefined, i.e. the
+   * run is never coalesced.
+   */
+  coalesceKey?: unknown;
+};
+
+/**
+ * A type to represent the options of a context.
+ */
+export type ContextOptions = {
+  /**
+   * The function to report an error. In Proction, exceptions are caught and reported by this function.
+   */
+  reportError: (e: unknown) => void;
+  /**
+   * Whether to assert no leak. If true, additional assertions are added to the program to ensure that all data slots are freed.
+   */
+  assertNoLeak: boolean;
+  /**
+   * The task scheduler
+   */
+  scheduler: Scheduler;
+  /**
+   * What a run does after an invocation fails. See FailurePolicy.
+   */
+  failurePolicy: FailurePolicy;
+  /**
+   * What a run submitted while another run of the context is in flight
+   * does. See OverlapPolicy.
+   */
+  overlapPolicy: OverlapPolicy;
+  /**
+   * Whether a failed or aborted run commits its partial results. If true,
+   * the records of the completed invocations are committed, and the
+   * versions of the destinations and the buffers of the memoized
+   * intermediates they wrote are reported and retained as after a
+   * successful run, so that the next run redoes only the part that did not
+   * complete. An invocation completes when it succeeds or is skipped, which
+   * implies its entire upstream completed. Defaults to false, i.e. a failed
+   * run commits nothing.
+   */
+  commitPartialResults: boolean;
+  /**
+   * The budget of the intermediate buffers allocated by a run at the same
+   * time, in the units reported through `DisposableWrap.size` (see the
+   * `size` parameter of `provider`). An invocation whose newly allocated
+   * outputs would exceed the budget is delayed until consumers release
+   * earlier buffers, and the invocations allocating outputs after it wait
+   * behind it in order. When nothing is running, the first waiting
+   * invocation starts regardless of the budget, so a run always makes
+   * progress. Buffers without a size are not accounted for. The outputs are
+   * provided before the budget is weighed, so a provider reporting sizes
+   * must acquire its buffers lazily, on the first access to their bodies,
+   * as the ones created by `provider` with a `size` do; an eager one
+   * allocates before it is delayed. Defaults to `Infinity`.
+   */
+  memoryBudget: number;
+  /**
+   * Whether to capture the call site where each handle and invocation is
+   * created and to include it in the errors about invalid wiring. Capturing
+   * takes a stack trace for each creation, so it is meant for debugging.
+   * Defaults to false.
+   */
+  debug: boolean;
+  /**
+   * The function receiving the trace events of the runs, e.g. to feed
+   * telemetry. Unlike middlewares, it also observes skipped invocations and
+   * the buffers. Defaults to undefined, i.e. no tracing.
+   */
+  tracer: Tracer | undefined;
+  /**
+   * The middlewares to apply around every invocation of every proc run on
+   * the context, outside the middlewares of the proc. A proc opts out with
+   * `ProcOptions.ignoreContextMiddlewares`. Defaults to none.
+   */
+  middlewares: MiddlewareFn[];
+  /**
+   * The time in milliseconds an invocation may take, counted from when the
+   * scheduler starts it and including its middlewares. An invocation
+   * exceeding it fails with an InvocationTimeoutError, so that the run can
+   * finish. Its body is not interrupted but abandoned: the buffers it uses
+   * are released when it settles, and a compiled plan cannot be executed
+   * again until then. Procs override it with `ProcOptions.timeout`.
+   * Defaults to `Infinity`.
+   */
+  invocationTimeout: number;
+};
+
+/**
+ * A type to represent what a run does after an invocation fails.
+ *
+ * - `"continue"`: invocations that do not depend on the failed one keep
+ *   being started, and the run rejects with every error after all of them
+ *   finished.
+ * - `"failFast"`: no more invocations are started after the first failure.
+ *   The running invocations are drained, and the run rejects with a
+ *   FailFastError listing the invocations that were never started.
+ */
+export type FailurePolicy = "continue" | "failFast";
+
+/**
+ * A type to represent what a run submitted while another run of the same
+ * context is in flight does. Inspections, dry runs and executions of
+ * compiled plans count as runs.
+ *
+ * - `"reject"`: the run rejects with an error.
+ * - `"queue"`: the run waits until the runs submitted earlier finish, and
+ *   then starts. Queued runs can be coalesced with `RunOptions.coalesceKey`
+ *   and leave the queue when their signals are aborted.
+ *
+ * A run submitted from inside a body function or an invocation body of a
+ * run on the same context cannot start before that run finishes, so it is
+ * rejected under both policies. The context tells such a nested run only
+ * until the body first awaits; a nested run submitted after that is queued
+ * under `"queue"`, and awaiting it there waits forever unless its signal is
+ * aborted.
+ */
+export type OverlapPolicy = "reject" | "queue";
+
+/**
+ * The default options of a context.
+ */
+const defaultContextOptions: ContextOptions = {
+  reportError: () => {},
+  assertNoLeak: false,
+  scheduler: defaultScheduler,
+  failurePolicy: "continue",
+  overlapPolicy: "reject",
+  commitPartialResults: false,
+  memoryBudget: Infinity,
+  debug: false,
+  tracer: undefined,
+  middlewares: [],
+  invocationTimeout: Infinity,
+};
 
 /**
  * A type passed to the body function in the run function.
@@ -1151,9 +2207,11 @@ export type RunContext = {
    * it whenever the content changes. If omitted, the content is treated as
    * changed every run. Repeated `$s` calls on the same object must claim the
    * same version (or all omit it); any disagreement throws.
+   * @param label The name of the handle in diagnostics such as error
+   * messages and plan exports.
    * @returns The read-only source handle.
    */
-  $s<T extends object>(value: T, version?: number): Handle<T>;
+  $s<T extends object>(value: T, version?: number, label?: string): Handle<T>;
   /**
    * Creates a write-only destination handle from an external resource.
    * @typeparam T The type of the external resource.
@@ -1166,12 +2224,15 @@ export type RunContext = {
    * may be passed to `$d` at most once per run; a repeated call throws.
    * @param setVersion A callback that receives the version of the written
    * content after a successful run.
+   * @param label The name of the handle in diagnostics such as error
+   * messages and plan exports.
    * @returns The write-only destination handle.
    */
   $d<T extends object>(
     value: T,
     version?: Version,
     setVersion?: SetVersionFn,
+    label?: string,
   ): Handle<T>;
   /**
    * Creates an intermediate handle backed by an externally managed buffer.
@@ -1193,13 +2254,123 @@ export type RunContext = {
    * buffer's content after a successful run. When the writing invocation is
    * skipped while the buffer is stale, no version is reported: the content
    * is unchanged and still described by the version passed in, if any.
+   * @param label The name of the handle in diagnostics such as error
+   * messages and plan exports.
    * @returns The external intermediate handle.
    */
   $e<T extends object>(
     value: T,
     version?: Version,
     setVersion?: SetVersionFn,
+    label?: string,
   ): Handle<T>;
+  /**
+   * Creates a transactional destination handle from an external resource.
+   * It is a destination whose writer writes a staging buffer, which is
+   * committed into the resource only after the run succeeds, so a failed or
+   * aborted run leaves the resource untouched. The other arguments have the
+   * meaning of the arguments of `$d`.
+   * @typeparam T The type of the external resource.
+   * @param value The external resource.
+   * @param staging How the writes to the resource are staged.
+   * @param version The version of the content the resource currently holds.
+   * @param setVersion A callback that receives the version of the written
+   * content after a successful run.
+   * @param label The name of the handle in diagnostics such as error
+   * messages and plan exports.
+   * @returns The write-only destination handle.
+   */
+  $t<T extends object>(
+    value: T,
+    staging: Staging<T>,
+    version?: Version,
+    setVersion?: SetVersionFn,
+    label?: string,
+  ): Handle<T>;
+};
+
+/**
+ * A type passed to the body function in the compile function.
+ */
+export type CompileContext = {
+  /**
+   * Creates a read-only source handle bound to an object on each execution.
+   * Repeated calls with the same name return the same handle. The name
+   * also labels the handle in diagnostics.
+   * @typeparam T The type of the bound objects.
+   * @param name The name of the source in the bindings.
+   * @returns The read-only source handle.
+   */
+  $s<T extends object>(name: string): Handle<T>;
+  /**
+   * Creates a write-only destination handle bound to an object on each
+   * execution. Each name may be passed to `$d` at most once. The name also
+   * labels the handle in diagnostics.
+   * @typeparam T The type of the bound objects.
+   * @param name The name of the destination in the bindings.
+   * @returns The write-only destination handle.
+   */
+  $d<T extends object>(name: string): Handle<T>;
+};
+
+/**
+ * A type to represent a plan compiled by the compile function.
+ */
+export type CompiledPlan = {
+  /**
+   * The names of the sources to bind.
+   */
+  readonly sources: readonly string[];
+  /**
+   * The names of the destinations to bind.
+   */
+  readonly destinations: readonly string[];
+  /**
+   * Executes the plan with sources and destinations bound to objects.
+   * Every source and destination must be bound.
+   * @param bindings The objects and versions bound to the named slots.
+   * @param options The options of the run.
+   * @returns A promise that resolves to the report of the run when all
+   * scheduled invocations are finished.
+   * @throws RunAbortedError If the run is aborted through `options.signal`.
+   * @throws RunSupersededError If the execution is superseded while queued.
+   * @throws PreconditionError If a body abandoned after its timeout in an
+   * earlier execution is still running.
+   */
+  execute(bindings: Bindings, options?: RunOptions): Promise<RunReport>;
+};
+
+/**
+ * A type to represent the bindings of an execution of a compiled plan,
+ * keyed by the names of the slots.
+ */
+export type Bindings = {
+  sources?: { readonly [name: string]: SourceBinding };
+  destinations?: { readonly [name: string]: DestinationBinding };
+};
+
+/**
+ * A type to represent the binding of a source. The fields have the meaning
+ * of the arguments of `RunContext.$s`.
+ */
+export type SourceBinding = {
+  value: object;
+  version?: number;
+};
+
+/**
+ * A type to represent the binding of a destination. The fields have the
+ * meaning of the arguments of `RunContext.$d`.
+ */
+export type DestinationBinding = {
+  value: object;
+  version?: Version;
+  setVersion?: SetVersionFn;
+  /**
+   * How the writes to the destination are staged, which makes it a
+   * transactional destination like the ones of `RunContext.$t`.
+   */
+  staging?: Staging<object>;
 };
 
 /**
@@ -1211,6 +2382,68 @@ const undefinedFn = () => {};
  * An internal symbol used for the key of the internal plan in a plan.
  */
 const internalPlanKey = Symbol("internalPlan");
+/**
+ * A type to represent the report of a dry run.
+ */
+export type DryRunReport = {
+  /**
+   * The invocations of the plan, in the order a sequential run could
+   * execute them.
+   */
+  readonly invocations: readonly DryRunInvocation[];
+  /**
+   * The number of invocations a run would execute.
+   */
+  readonly numExecuted: number;
+  /**
+   * The number of invocations a run would skip.
+   */
+  readonly numSkipped: number;
+};
+
+/**
+ * A type to represent an invocation in the report of a dry run.
+ */
+export type DryRunInvocation = {
+  /**
+   * The ID of the indirect procedure. It is unique within the process.
+   */
+  readonly procID: number;
+  /**
+   * The name of the indirect procedure.
+   */
+  readonly procName: string;
+  /**
+   * The ID of the invocation. It is unique within the plan.
+   */
+  readonly invocationID: number;
+  /**
+   * Whether a run would execute or skip the invocation.
+   */
+  readonly action: "execute" | "skip";
+  /**
+   * Why a run would execute or skip the invocation.
+   */
+  readonly reason: DryRunReason;
+};
+
+/**
+ * A type to represent why a run would execute or skip an invocation.
+ * - `"unversioned"`: The plan supplies no versions, so the incremental pass
+ *   does not run and every invocation executes.
+ * - `"changed"`: No record matches the invocation with its current input
+ *   versions, e.g. because an input changed or it never ran.
+ * - `"neededDownstream"`: A record matches, but an output is read by an
+ *   executed invocation and its content is not available.
+ * - `"upToDate"`: A record matches and the outputs need no recomputation, so
+ *   the invocation is skipped.
+ */
+export type DryRunReason =
+  | "unversioned"
+  | "changed"
+  | "neededDownstream"
+  | "upToDate";
+
 /**
  * A type to represent a plan.
  */
@@ -1237,19 +2470,59 @@ class InternalPlan {
   // Whether any $s/$d call supplied a version or a setVersion callback.
   // When false, the incremental pass is skipped entirely.
   usesVersions = false;
+  // Set once the body function of the run settles. The plan is submitted
+  // as it is then, so nothing may join it afterwards.
+  sealed = false;
+  // When the run of the plan started, for the planning time of the report.
+  startTime: number = performance.now();
+  // The number of bodies abandoned after their timeouts that have not
+  // settled yet. They still refer to the data slots, so a compiled plan may
+  // not reset them until then.
+  numAbandonedInvocations = 0;
+  // The signal aborted when the run in flight is stopped by an abort or a
+  // fail-fast failure, or settles. runPlan sets it.
+  stopSignal: AbortSignal = new AbortController().signal;
+  // Charges an output buffer provided while an invocation executes against
+  // the memory budget of the run in flight. runPlan sets it.
+  chargeWrap: (wrap: DisposableWrap<unknown>) => DisposableWrap<unknown> = (
+    wrap,
+  ) => wrap;
 
   generateHandle: () => UntypedHandle = idGenerator((
     value,
-  ) => ({
-    [parentPlanKey]: this.plan,
-    [handleIdKey]: value as HandleId,
-    [phantomDataKey]: undefinedFn,
-  }));
+  ) => {
+    this.assertNotSealed();
+    if (this.context[contextOptionsKey].debug) {
+      this.recordCreationSite(this.handleCreationSites, value as HandleId);
+    }
+    return {
+      [parentPlanKey]: this.plan,
+      [handleIdKey]: value as HandleId,
+      [phantomDataKey]: undefinedFn,
+    };
+  });
   dataSlots: Map<HandleId, DataSlot> = new Map<HandleId, DataSlot>();
+  // The labels given to handles for diagnostics. They are kept apart from
+  // the data slots so that they survive pruning and compiled executions.
+  labels: Map<HandleId, string> = new Map<HandleId, string>();
+  // The call sites where handles and invocations are created, captured only
+  // in the debug mode of the context.
+  handleCreationSites: Map<HandleId, string> = new Map<HandleId, string>();
+  invocationCreationSites: Map<InvocationID, string> = new Map<
+    InvocationID,
+    string
+  >();
 
-  generateInvocationID: () => InvocationID = idGenerator((value) =>
-    value as InvocationID
-  );
+  generateInvocationID: () => InvocationID = idGenerator((value) => {
+    this.assertNotSealed();
+    if (this.context[contextOptionsKey].debug) {
+      this.recordCreationSite(
+        this.invocationCreationSites,
+        value as InvocationID,
+      );
+    }
+    return value as InvocationID;
+  });
   invocations: Map<InvocationID, Invocation> = new Map<
     InvocationID,
     Invocation
@@ -1262,6 +2535,30 @@ class InternalPlan {
     this.outputCache = new WeakMap();
     this.externalCache = new WeakMap();
   }
+
+  /**
+   * Records the call site creating a handle or an invocation.
+   * @param sites The call sites of the handles or of the invocations.
+   * @param id The ID of the created handle or invocation.
+   */
+  recordCreationSite<K>(sites: Map<K, string>, id: K): void {
+    const site = captureCallSite();
+    if (site != null) {
+      sites.set(id, site);
+    }
+  }
+
+  /**
+   * Asserts that the plan still accepts handles and invocations.
+   * @throws PreconditionError If the body function of the run has settled.
+   */
+  assertNotSealed(): void {
+    if (this.sealed) {
+      throw new PreconditionError(
+        "handles and invocations must be created before the body function of the run settles",
+      );
+    }
+  }
 }
 /**
  * An internal union type of data slots.
@@ -1293,6 +2590,9 @@ type IntermediateSlot = {
   // managed outside of the graph because toFunc* operators would make a new
   // function object for each call and it would break the identity.
   provideKey: object;
+  // A wrap provided ahead of the execution to weigh it against the memory
+  // budget; the writing invocation takes it over instead of providing anew.
+  providedWrap: DisposableWrap<unknown> | undefined;
   disposableWrapContainer: DelayedRc<DisposableWrap<unknown>>;
 };
 /**
@@ -1307,50 +2607,430 @@ type DestinationSlot = {
   // The version of the content the destination holds after the run,
   // calculated by the incremental pass.
   resolvedVersion: Version | undefined;
+  // How the writes are staged if the destination is transactional.
+  staging: Staging<unknown> | undefined;
+  // The staging buffer the writer writes, acquired when the output is
+  // prepared and released at the end of the run.
+  stagedWrap: DisposableWrap<unknown> | undefined;
+};
+/**
+ * An internal type to represent an external-intermediate slot: a
+ * caller-managed buffer used as an intermediate, memoizing its content
+ * across runs when versions are supplied.
+ */
+type ExternalIntermediateSlot = {
+  type: "externalIntermediate";
+  body: unknown;
+  dataID: DataID;
+  version: Version | undefined;
+  setVersion: SetVersionFn | undefined;
+  // The version describing the buffer's content after the run, calculated
+  // by the incremental pass. When the writing invocation is skipped while
+  // the buffer is stale, this stays undefined, because the recorded
+  // version does not describe the content and no version is reported.
+  resolvedVersion: Version | undefined;
+};
+/**
+ * An internal type to represent a memoized-intermediate slot: an
+ * intermediate whose buffer is retained inside the context across runs, so
+ * that the invocation writing it can be skipped while its inputs are
+ * unchanged.
+ */
+type MemoizedIntermediateSlot = {
+  type: "memoizedIntermediate";
+  provide: () => DisposableWrap<unknown>;
+  // The stable identity of the provider across runs (see IntermediateSlot).
+  provideKey: object;
+  // See IntermediateSlot.
+  providedWrap: DisposableWrap<unknown> | undefined;
+  // The data ID resolved for this output by the incremental pass; it keys
+  // the buffer retained in the context.
+  resolvedDataID: DataID | undefined;
+  // The buffer retained by a previous run, looked up by the incremental
+  // pass. It stays owned by the context; consumers read it when the writing
+  // invocation is skipped.
+  retainedWrap: DisposableWrap<unknown> | undefined;
+  // Holds the buffer produced by this run. Consumers do not reference-count
+  // it: the wrap must survive the whole run to be retained in the context,
+  // so the count stays at its initial 1 until the retention pass extracts it
+  // or cleanup frees it. The retained buffer is never written to:
+  // re-execution allocates a fresh buffer and the retention pass swaps it
+  // in only after the run succeeds.
+  disposableWrapContainer: DelayedRc<DisposableWrap<unknown>>;
+};
+
+/**
+ * An internal function to create an empty plan.
+ * @param context The context the plan runs on.
+ * @returns The plan.
+ */
+function createPlan(context: Context): Plan {
+  const plan: Plan = {
+    context,
+    [internalPlanKey]: new InternalPlan(context),
+  };
+  plan[internalPlanKey].plan = plan;
+  return plan;
+}
+
+/**
+ * An internal function to create the run context handed to a body function.
+ * @param plan The plan the handles are created in.
+ * @returns The run context.
+ */
+function createRunContext(plan: Plan): RunContext {
+  const internalPlan = plan[internalPlanKey];
+  return {
+    $s: (value, version, label) => {
+      internalPlan.assertNotSealed();
+      return labelHandle(plan, source(plan, value, version), label);
+    },
+    $d: (value, version, setVersion, label) => {
+      internalPlan.assertNotSealed();
+      return labelHandle(
+        plan,
+        destination(plan, value, version, setVersion, undefined),
+        label,
+      );
+    },
+    $e: (value, version, setVersion, label) => {
+      internalPlan.assertNotSealed();
+      return labelHandle(
+        plan,
+        externalIntermediate(plan, value, version, setVersion),
+        label,
+      );
+    },
+    $t: (value, staging, version, setVersion, label) => {
+      internalPlan.assertNotSealed();
+      return labelHandle(
+        plan,
+        destination(
+          plan,
+          value,
+          version,
+          setVersion,
+          staging,
+        ),
+        label,
+      );
+    },
+  };
+}
+
+/**
+ * An internal function to label a handle for diagnostics. A handle returned
+ * again for the same object keeps its first label.
+ * @param plan The plan the handle belongs to.
+ * @param handle The handle to label.
+ * @param label The label, or undefined to leave the handle as it is.
+ * @returns The handle.
+ */
+function labelHandle<T>(
+  plan: Plan,
+  handle: Handle<T>,
+  label: string | undefined,
+): Handle<T> {
+  const labels = plan[internalPlanKey].labels;
+  if (label != null && !labels.has(handle[handleIdKey])) {
+    labels.set(handle[handleIdKey], label);
+  }
+  return handle;
+}
+
+/**
+ * An internal type of a plan analyzed without executing it.
+ */
+type PlanAnalysis = {
+  // The plan after pruning; only the invocations to execute remain.
+  plan: Plan;
+  // The data slots and the sorted invocations of the plan as submitted.
+  dataSlots: readonly (readonly [HandleId, DataSlot])[];
+  order: readonly Invocation[];
+  // Null if the incremental pass did not run.
+  pruneResult: PruneResult | null;
 };
+
+/**
+ * An internal function to build, analyze and prune a plan like a run, but
+ * without executing it or committing its records. It is the common part of
+ * inspect and dryRun.
+ * @param context The Proction context.
+ * @param bodyFn The body function of the Proction program.
+ * @returns A promise that resolves to the analyzed plan.
+ * @throws PreconditionError If the plan is wired invalidly.
+ */
+async function analyzeWithoutExecuting(
+  context: Context,
+  bodyFn: (runContext: RunContext) => void | Promise<void>,
+): Promise<PlanAnalysis> {
+  await acquireContext(context, undefined);
+
+  try {
+    const plan = createPlan(context);
+    const internalPlan = plan[internalPlanKey];
+    try {
+      await callBody(context, () => bodyFn(createRunContext(plan)));
+    } finally {
+      internalPlan.sealed = true;
+    }
+
+    const dependencyMaps = analyzePlanWiring(plan);
+    // Pruning removes the skipped invocations and their private handles from
+    // the plan, so the plan as submitted is captured beforehand.
+    const dataSlots = [...internalPlan.dataSlots];
+    // The graph run is never committed, so the records stay as they are.
+    const pruneResult = internalPlan.usesVersions
+      ? pruneUpToDateInvocations(plan, dependencyMaps)
+      : null;
+    return { plan, dataSlots, order: dependencyMaps.order, pruneResult };
+  } finally {
+    releaseContext(context);
+  }
+}
+
+/**
+ * An internal type of the state of a compiled plan as compiled, which each
+ * execution restores before binding.
+ */
+type PlanTemplate = {
+  invocations: readonly Invocation[];
+  dataSlots: readonly (readonly [HandleId, DataSlot])[];
+  usesVersions: boolean;
+};
+
+/**
+ * An internal function to create a named source handle of a compiled plan.
+ * It is the implementation of the $s function of compile.
+ * @param plan The plan to create the source handle in.
+ * @param handles The source handles of the plan by name.
+ * @param name The name of the source.
+ * @returns The source handle.
+ */
+function namedSource(
+  plan: Plan,
+  handles: Map<string, UntypedHandle>,
+  name: string,
+): UntypedHandle {
+  const cached = handles.get(name);
+  if (cached != null) {
+    return cached;
+  }
+
+  const handle = plan[internalPlanKey].generateHandle();
+  plan[internalPlanKey].dataSlots.set(handle[handleIdKey], {
+    type: "source",
+    body: undefined,
+    dataID: unboundDataID,
+    version: undefined,
+  });
+  plan[internalPlanKey].labels.set(handle[handleIdKey], name);
+  handles.set(name, handle);
+
+  return handle;
+}
+
+/**
+ * An internal function to create a named destination handle of a compiled
+ * plan. It is the implementation of the $d function of compile.
+ * @param plan The plan to create the destination handle in.
+ * @param handles The destination handles of the plan by name.
+ * @param name The name of the destination.
+ * @returns The destination handle.
+ */
+function namedDestination(
+  plan: Plan,
+  handles: Map<string, UntypedHandle>,
+  name: string,
+): UntypedHandle {
+  // Aliasing is not allowed for destinations
+  if (handles.has(name)) {
+    throw new PreconditionError(
+      `the destination is already specified: ${name}`,
+    );
+  }
+
+  const handle = plan[internalPlanKey].generateHandle();
+  plan[internalPlanKey].dataSlots.set(handle[handleIdKey], {
+    type: "destination",
+    body: undefined,
+    dataID: unboundDataID,
+    version: undefined,
+    setVersion: undefined,
+    resolvedVersion: undefined,
+    staging: undefined,
+    stagedWrap: undefined,
+  });
+  plan[internalPlanKey].labels.set(handle[handleIdKey], name);
+  handles.set(name, handle);
+
+  return handle;
+}
+
+/**
+ * An internal function to validate the bindings of an execution of a
+ * compiled plan against the rules $s and $d apply to objects.
+ * @param sourceHandles The source handles of the plan by name.
+ * @param destinationHandles The destination handles of the plan by name.
+ * @param bindings The bindings to validate.
+ * @throws PreconditionError If the bindings are invalid.
+ */
+function validateBindings(
+  sourceHandles: Map<string, UntypedHandle>,
+  destinationHandles: Map<string, UntypedHandle>,
+  bindings: Bindings,
+): void {
+  const sources = bindings.sources ?? {};
+  const destinations = bindings.destinations ?? {};
+  for (const name of Object.keys(sources)) {
+    if (!sourceHandles.has(name)) {
+      throw new PreconditionError(`unknown source: ${name}`);
+    }
+  }
+  for (const name of Object.keys(destinations)) {
+    if (!destinationHandles.has(name)) {
+      throw new PreconditionError(`unknown destination: ${name}`);
+    }
+  }
+
+  const sourceVersions = new Map<object, number | undefined>();
+  for (const name of sourceHandles.keys()) {
+    const binding = Object.hasOwn(sources, name) ? sources[name] : undefined;
+    if (binding == null) {
+      throw new PreconditionError(`the source is not bound: ${name}`);
+    }
+    validateSourceVersion(binding.version);
+    // Two different versions for a single object are contradictory.
+    if (
+      sourceVersions.has(binding.value) &&
+      sourceVersions.get(binding.value) !== binding.version
+    ) {
+      throw new PreconditionError(
+        "the value is already specified as input with a different version",
+      );
+    }
+    sourceVersions.set(binding.value, binding.version);
+  }
+
+  const destinationValues = new Set<object>();
+  for (const name of destinationHandles.keys()) {
+    const binding = Object.hasOwn(destinations, name)
+      ? destinations[name]
+      : undefined;
+    if (binding == null) {
+      throw new PreconditionError(`the destination is not bound: ${name}`);
+    }
+    validateDestinationVersion(binding.version);
+    // Aliasing is not allowed for destinations
+    if (destinationValues.has(binding.value)) {
+      throw new PreconditionError(
+        "the value is already specified as another output",
+      );
+    }
+    if (sourceVersions.has(binding.value)) {
+      throw new PreconditionError("the value is already specified as input");
+    }
+    destinationValues.add(binding.value);
+  }
+}
+
 /**
- * An internal type to represent an external-intermediate slot: a
- * caller-managed buffer used as an intermediate, memoizing its content
- * across runs when versions are supplied.
+ * An internal function to restore a compiled plan to its state as compiled:
+ * the pruning of a previous execution is undone, and the per-execution
+ * state of invocations and data slots is cleared.
+ * @param plan The compiled plan.
+ * @param template The state of the plan as compiled.
  */
-type ExternalIntermediateSlot = {
-  type: "externalIntermediate";
-  body: unknown;
-  dataID: DataID;
-  version: Version | undefined;
-  setVersion: SetVersionFn | undefined;
-  // The version describing the buffer's content after the run, calculated
-  // by the incremental pass. When the writing invocation is skipped while
-  // the buffer is stale, this stays undefined, because the recorded
-  // version does not describe the content and no version is reported.
-  resolvedVersion: Version | undefined;
-};
+function resetPlan(plan: Plan, template: PlanTemplate): void {
+  const internalPlan = plan[internalPlanKey];
+
+  internalPlan.invocations = new Map();
+  for (const invocation of template.invocations) {
+    invocation.next.length = 0;
+    invocation.numBlockers = 0;
+    invocation.numResolvedBlockers = 0;
+    invocation.criticalPathLength = 0;
+    internalPlan.invocations.set(invocation.id, invocation);
+  }
+
+  internalPlan.dataSlots = new Map(template.dataSlots);
+  for (const dataSlot of internalPlan.dataSlots.values()) {
+    const type = dataSlot.type;
+    switch (type) {
+      case "source":
+      case "destination":
+        // bound by bindPlan
+        break;
+      case "intermediate":
+        dataSlot.disposableWrapContainer = createWrapContainer(plan);
+        dataSlot.providedWrap = undefined;
+        break;
+      case "memoizedIntermediate":
+        dataSlot.disposableWrapContainer = createWrapContainer(plan);
+        dataSlot.providedWrap = undefined;
+        dataSlot.resolvedDataID = undefined;
+        dataSlot.retainedWrap = undefined;
+        break;
+      case "externalIntermediate":
+        throw new LogicError(`unexpected data slot type: ${type}`);
+      default:
+        return unreachable(type);
+    }
+  }
+
+  internalPlan.usesVersions = template.usesVersions;
+  internalPlan.startTime = performance.now();
+}
+
 /**
- * An internal type to represent a memoized-intermediate slot: an
- * intermediate whose buffer is retained inside the context across runs, so
- * that the invocation writing it can be skipped while its inputs are
- * unchanged.
+ * An internal function to bind the named slots of a compiled plan to the
+ * objects and versions of an execution. The bindings must be validated.
+ * @param plan The compiled plan.
+ * @param sourceHandles The source handles of the plan by name.
+ * @param destinationHandles The destination handles of the plan by name.
+ * @param bindings The bindings of the execution.
  */
-type MemoizedIntermediateSlot = {
-  type: "memoizedIntermediate";
-  provide: () => DisposableWrap<unknown>;
-  // The stable identity of the provider across runs (see IntermediateSlot).
-  provideKey: object;
-  // The data ID resolved for this output by the incremental pass; it keys
-  // the buffer retained in the context.
-  resolvedDataID: DataID | undefined;
-  // The buffer retained by a previous run, looked up by the incremental
-  // pass. It stays owned by the context; consumers read it when the writing
-  // invocation is skipped.
-  retainedWrap: DisposableWrap<unknown> | undefined;
-  // Holds the buffer produced by this run. Consumers do not reference-count
-  // it: the wrap must survive the whole run to be retained in the context,
-  // so the count stays at its initial 1 until the retention pass extracts it
-  // or cleanup frees it. The retained buffer is never written to:
-  // re-execution allocates a fresh buffer and the retention pass swaps it
-  // in only after the run succeeds.
-  disposableWrapContainer: DelayedRc<DisposableWrap<unknown>>;
-};
+function bindPlan(
+  plan: Plan,
+  sourceHandles: Map<string, UntypedHandle>,
+  destinationHandles: Map<string, UntypedHandle>,
+  bindings: Bindings,
+): void {
+  const internalPlan = plan[internalPlanKey];
+  const graph = plan.context[graphKey];
+
+  for (const [name, handle] of sourceHandles) {
+    const binding = bindings.sources![name];
+    const dataSlot = internalPlan.dataSlots.get(handle[handleIdKey]);
+    if (dataSlot?.type !== "source") {
+      throw new LogicError(`dataSlot not found for handle: ${handle}`);
+    }
+    dataSlot.body = binding.value;
+    dataSlot.dataID = graph.resolveDataID(binding.value);
+    dataSlot.version = binding.version;
+    if (binding.version != null) {
+      internalPlan.usesVersions = true;
+    }
+  }
+
+  for (const [name, handle] of destinationHandles) {
+    const binding = bindings.destinations![name];
+    const dataSlot = internalPlan.dataSlots.get(handle[handleIdKey]);
+    if (dataSlot?.type !== "destination") {
+      throw new LogicError(`dataSlot not found for handle: ${handle}`);
+    }
+    dataSlot.body = binding.value;
+    dataSlot.dataID = graph.resolveDataID(binding.value);
+    dataSlot.version = binding.version;
+    dataSlot.setVersion = binding.setVersion;
+    dataSlot.resolvedVersion = undefined;
+    dataSlot.staging = binding.staging;
+    dataSlot.stagedWrap = undefined;
+    if (binding.version != null || binding.setVersion != null) {
+      internalPlan.usesVersions = true;
+    }
+  }
+}
 
 /**
  * An internal function to validate the common shape of caller-supplied
@@ -1462,6 +3142,10 @@ function source<T extends object>(
  * @typeparam T The type of the external resource.
  * @param plan The plan to create the destination handle in.
  * @param value The external resource.
+ * @param version The version of the content the resource currently holds.
+ * @param setVersion The callback that receives the version of the content.
+ * @param staging How the writes are staged if the destination is
+ * transactional. It is given by $t.
  * @returns The destination handle.
  */
 function destination<T extends object>(
@@ -1469,6 +3153,7 @@ function destination<T extends object>(
   value: T,
   version: Version | undefined,
   setVersion: SetVersionFn | undefined,
+  staging: Staging<unknown> | undefined,
 ): Handle<T> {
   const internalPlan = plan[internalPlanKey];
 
@@ -1502,6 +3187,8 @@ function destination<T extends object>(
     version,
     setVersion,
     resolvedVersion: undefined,
+    staging,
+    stagedWrap: undefined,
   });
   internalPlan.outputCache.set(value, handle);
 
@@ -1590,16 +3277,29 @@ function memoizedIntermediate<T>(
     type: "memoizedIntermediate",
     provide,
     provideKey,
+    providedWrap: undefined,
     resolvedDataID: undefined,
     retainedWrap: undefined,
-    disposableWrapContainer: new DelayedRc((x) => {
-      x[Symbol.dispose]();
-    }, plan.context[contextOptionsKey].reportError),
+    disposableWrapContainer: createWrapContainer(plan),
   });
 
   return handle as Handle<T>;
 }
 
+/**
+ * An internal function to create the reference-counted container of the
+ * buffer of an intermediate slot.
+ * @param plan The plan the data slot belongs to.
+ * @returns The container.
+ */
+function createWrapContainer(
+  plan: Plan,
+): DelayedRc<DisposableWrap<unknown>> {
+  return new DelayedRc((x) => {
+    x[Symbol.dispose]();
+  }, plan.context[contextOptionsKey].reportError);
+}
+
 /**
  * An internal function to create an intermediate handle and an intermediate slot. It backs the outputs of the toFunc/toFuncN conversions.
  * @typeparam T The type of the provided object.
@@ -1619,11 +3319,10 @@ function intermediate<T>(
 
   plan[internalPlanKey].dataSlots.set(handle[handleIdKey], {
     type: "intermediate",
-    disposableWrapContainer: new DelayedRc((x) => {
-      x[Symbol.dispose]();
-    }, plan.context[contextOptionsKey].reportError),
+    disposableWrapContainer: createWrapContainer(plan),
     provide,
     provideKey,
+    providedWrap: undefined,
   });
 
   return handle as Handle<T>;
@@ -1632,28 +3331,64 @@ function intermediate<T>(
 /**
  * An internal function to run a plan.
  * @param plan The plan to run.
+ * @param options The options of the run.
+ * @param compiledDependencyMaps The dependency maps of a compiled plan,
+ * whose wiring is already analyzed by analyzePlanWiring.
  * @returns The promise to run the plan.
  */
 async function runPlan(
   plan: Plan,
-): Promise<void> {
-  // A run mutates the context's shared graph while invocation bodies run
-  // asynchronously; an overlap would silently corrupt the recorded versions,
-  // so it is rejected instead.
+  options: RunOptions,
+  compiledDependencyMaps?: DependencyMaps,
+): Promise<RunReport> {
+  // The overlap check and the "planning" state are taken by the callers
+  // before the plan is built or bound.
   const context = plan.context;
-  if (context[stateKey] !== "idle") {
-    throw new PreconditionError("runs on a context must not overlap");
-  }
-  context[stateKey] = "planning";
-
+  const bufferCounters: BufferCounters = { numAcquired: 0, numReleased: 0 };
+  context[bufferCountersKey] = bufferCounters;
+  const tracer = context[contextOptionsKey].tracer;
+
+  const signal = options.signal;
+  const failFast =
+    (options.failurePolicy ?? context[contextOptionsKey].failurePolicy) ===
+      "failFast";
+  const commitPartialResults = options.commitPartialResults ??
+    context[contextOptionsKey].commitPartialResults;
   const invocationErrors: unknown[] = [];
+  // The failed invocations, with their errors in invocationErrors at the
+  // same positions until they are wrapped into InvocationErrors.
+  const failedInvocations: (Invocation | null)[] = [];
   const startedInvocations = new Set<InvocationID>();
+  const completedInvocations = new Set<InvocationID>();
+  let aborted = false;
   let cleanupError: unknown | undefined;
   let pruneResult: PruneResult | null = null;
+  let report: RunReport;
+  let succeeded = false;
+  // The intermediates used by the bodies abandoned after their timeouts,
+  // with the numbers of such bodies. They are cleaned up when the bodies
+  // settle instead of with the run.
+  const abandonedHandles = new Map<HandleId, number>();
+  let settled = false;
+  // Stops the retries of the running invocations once the run is stopped or
+  // settles, the latter for the bodies abandoned after their timeouts.
+  const stopController = new AbortController();
+  const stop = () => stopController.abort();
+  signal?.addEventListener("abort", stop);
+  if (signal?.aborted) {
+    stop();
+  }
   try {
     const internalPlan = plan[internalPlanKey];
-    const dependencyMaps = buildDependencyMaps(internalPlan.invocations);
-    validatePlanWiring(plan, dependencyMaps);
+    internalPlan.stopSignal = stopController.signal;
+    const dependencyMaps = compiledDependencyMaps ?? analyzePlanWiring(plan);
+    const numSubmitted = internalPlan.invocations.size;
+    const pruningStartTime = performance.now();
+    tracer?.({
+      type: "planStart",
+      time: pruningStartTime,
+      numInvocations: numSubmitted,
+    });
     if (internalPlan.usesVersions) {
       pruneResult = pruneUpToDateInvocations(plan, dependencyMaps);
     } else if (internalPlan.invocations.size > 0) {
@@ -1669,52 +3404,386 @@ async function runPlan(
       // until the next versioned run's sweep or disposal.
       releaseRetainedBuffers(context);
     }
+    const executionStartTime = performance.now();
+
+    // A retained buffer is reused when its writer is skipped and a
+    // surviving invocation reads it.
+    const reusedRetainedBuffers = new Set<HandleId>();
+    for (const invocation of internalPlan.invocations.values()) {
+      for (const input of invocation.inputs) {
+        const dataSlot = internalPlan.dataSlots.get(input[handleIdKey]);
+        const producer = dependencyMaps.producerByHandle.get(
+          input[handleIdKey],
+        );
+        if (
+          dataSlot?.type === "memoizedIntermediate" &&
+          dataSlot.retainedWrap != null && producer != null &&
+          !internalPlan.invocations.has(producer.id)
+        ) {
+          reusedRetainedBuffers.add(input[handleIdKey]);
+        }
+      }
+    }
+
+    // A body exceeding its timeout cannot be interrupted, so it is
+    // abandoned. The intermediates it uses stay as they are until it
+    // settles: while the run goes on, its own references keep them, and
+    // after the run they are cleaned up on its behalf.
+    const abandon = (invocation: Invocation, promise: Promise<void>) => {
+      const dataSlots = new Map<
+        HandleId,
+        IntermediateSlot | MemoizedIntermediateSlot | DestinationSlot
+      >();
+      for (const handle of [...invocation.inputs, ...invocation.outputs]) {
+        const id = handle[handleIdKey];
+        const dataSlot = internalPlan.dataSlots.get(id);
+        if (
+          dataSlot?.type === "intermediate" ||
+          dataSlot?.type === "memoizedIntermediate" ||
+          (dataSlot?.type === "destination" && dataSlot.staging != null)
+        ) {
+          dataSlots.set(id, dataSlot);
+        }
+      }
+      // The buffers retained by previous runs that it reads instead of the
+      // outputs of skipped producers outlive the run, so they are pinned
+      // in the context against evictions by later runs.
+      const pinnedWraps: DisposableWrap<unknown>[] = [];
+      for (const input of invocation.inputs) {
+        const dataSlot = internalPlan.dataSlots.get(input[handleIdKey]);
+        if (
+          dataSlot?.type === "memoizedIntermediate" &&
+          dataSlot.retainedWrap != null &&
+          !dataSlot.disposableWrapContainer.isInitialized
+        ) {
+          pinnedWraps.push(dataSlot.retainedWrap);
+          pinRetainedWrap(context, dataSlot.retainedWrap);
+        }
+      }
+      for (const id of dataSlots.keys()) {
+        abandonedHandles.set(id, (abandonedHandles.get(id) ?? 0) + 1);
+      }
+      internalPlan.numAbandonedInvocations++;
+      promise
+        .catch((e: unknown) => context[contextOptionsKey].reportError(e))
+        .finally(() => {
+          internalPlan.numAbandonedInvocations--;
+          for (const wrap of pinnedWraps) {
+            unpinRetainedWrap(context, wrap);
+          }
+          for (const [id, dataSlot] of dataSlots) {
+            const count = abandonedHandles.get(id)! - 1;
+            if (count > 0) {
+              abandonedHandles.set(id, count);
+              continue;
+            }
+            abandonedHandles.delete(id);
+            if (!settled) {
+              continue;
+            }
+            if (dataSlot.type === "destination") {
+              disposeStagedWrap(plan, dataSlot);
+            } else {
+              dataSlot.disposableWrapContainer.forceCleanUp();
+              disposeProvidedWrap(plan, dataSlot);
+            }
+          }
+        });
+    };
+    const contextTimeout = context[contextOptionsKey].invocationTimeout;
+    const executeWithTimeout = (
+      invocation: Invocation,
+      body: InvocationBodyFn,
+    ): Promise<void> => {
+      const timeout = invocation.timeout ?? contextTimeout;
+      if (timeout === Infinity) {
+        return body();
+      }
+      return raceTimeout(invocation, body(), timeout);
+    };
+    const raceTimeout = async (
+      invocation: Invocation,
+      promise: Promise<void>,
+      timeout: number,
+    ) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let timedOut = false;
+      const expiry = new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          resolve();
+        }, timeout);
+      });
+      try {
+        await Promise.race([promise, expiry]);
+      } finally {
+        clearTimeout(timer);
+      }
+      if (timedOut) {
+        abandon(invocation, promise);
+        throw new InvocationTimeoutError(timeout);
+      }
+    };
+
+    const procExecutions = new Map<
+      ProcID,
+      { procName: string; numInvocations: number; wallTime: number }
+    >();
+    const timed = (
+      invocation: Invocation,
+      descriptor: InvocationDescriptor,
+    ): InvocationBodyFn => {
+      const body = invocation.body!;
+      return async () => {
+        const startTime = performance.now();
+        tracer?.({
+          type: "invocationStart",
+          time: startTime,
+          invocation: descriptor,
+        });
+        let error: unknown;
+        let failed = false;
+        try {
+          await executeWithTimeout(invocation, body);
+        } catch (e: unknown) {
+          error = e;
+          failed = true;
+          throw e;
+        } finally {
+          const endTime = performance.now();
+          tracer?.({
+            type: "invocationEnd",
+            time: endTime,
+            invocation: descriptor,
+            ...(failed ? { error } : {}),
+          });
+          const wallTime = endTime - startTime;
+          const executions = procExecutions.get(invocation.procID);
+          if (executions == null) {
+            procExecutions.set(invocation.procID, {
+              procName: invocation.procName,
+              numInvocations: 1,
+              wallTime,
+            });
+          } else {
+            executions.numInvocations++;
+            executions.wallTime += wallTime;
+          }
+        }
+      };
+    };
 
     const runningInvocations = new Set<InvocationID>();
     const freeInvocations = prepareInvocations(plan, dependencyMaps);
     prepareDataSlots(plan);
+    if (tracer != null) {
+      for (const invocation of dependencyMaps.order) {
+        const executed = internalPlan.invocations.has(invocation.id);
+        tracer({
+          type: executed ? "inPlaceDecision" : "invocationSkip",
+          time: performance.now(),
+          invocation: describeInvocation(plan, invocation),
+        });
+        if (executed && invocation.numBlockers === 0) {
+          tracer({
+            type: "invocationReady",
+            time: performance.now(),
+            invocation: describeInvocation(plan, invocation),
+          });
+        }
+      }
+    }
 
-    context[stateKey] = "running";
+    const state = context[stateKey];
+    if (state.type === "idle") {
+      throw new LogicError("the context is not taken by the run");
+    }
+    context[stateKey] = { type: "running", queue: state.queue };
 
-    // condvar is for runningInvocations and freeInvocations
+    const scheduler = context[contextOptionsKey].scheduler;
+    // condvar is for runningInvocations
     let { promise: condvar, resolve: notify } = Promise.withResolvers<void>();
 
-    while (true) {
-      const invocation = freeInvocations.shift();
-      if (invocation == null) {
-        if (runningInvocations.size === 0) {
-          break;
+    const memoryBudget = context[contextOptionsKey].memoryBudget;
+    let memoryInUse = 0;
+    // Under a finite budget, the outputs an invocation allocates are
+    // provided before it starts to weigh them, which acquires nothing as
+    // long as the providers reporting sizes acquire lazily; the wraps charge
+    // the budget until they are disposed of, wherever their ownership moved
+    // meanwhile.
+    const admit = (invocation: Invocation): boolean => {
+      if (memoryBudget === Infinity) {
+        return true;
+      }
+
+      const outputSlots: (IntermediateSlot | MemoizedIntermediateSlot)[] = [];
+      let size = 0;
+      for (const output of invocation.outputs) {
+        if (invocation.transferredOutputs.includes(output)) {
+          continue;
+        }
+        const dataSlot = internalPlan.dataSlots.get(output[handleIdKey]);
+        if (
+          dataSlot?.type !== "intermediate" &&
+          dataSlot?.type !== "memoizedIntermediate"
+        ) {
+          continue;
         }
+        dataSlot.providedWrap ??= provideCounted(plan, output, dataSlot);
+        const outputSize = dataSlot.providedWrap.size ?? 0;
+        if (!Number.isFinite(outputSize) || outputSize < 0) {
+          throw new PreconditionError(
+            "size must be a non-negative finite number",
+          );
+        }
+        outputSlots.push(dataSlot);
+        size += outputSize;
+      }
 
-        await condvar;
-        ({ promise: condvar, resolve: notify } = Promise.withResolvers<void>());
+      // An invocation allocating nothing can only release buffers, so it is
+      // never delayed.
+      if (
+        size > 0 && memoryInUse + size > memoryBudget &&
+        runningInvocations.size > 0
+      ) {
+        return false;
+      }
+      for (const dataSlot of outputSlots) {
+        dataSlot.providedWrap = chargedWrap(dataSlot.providedWrap!);
+      }
+      return true;
+    };
+    const chargedWrap = (
+      wrap: DisposableWrap<unknown>,
+    ): DisposableWrap<unknown> => {
+      const size = wrap.size ?? 0;
+      memoryInUse += size;
+      let charged = true;
+      return {
+        get body() {
+          return wrap.body;
+        },
+        size,
+        [Symbol.dispose]() {
+          if (charged) {
+            charged = false;
+            memoryInUse -= size;
+          }
+          wrap[Symbol.dispose]();
+        },
+      };
+    };
+    // A retry replaces the outputs of the failed attempt with fresh buffers,
+    // which take over the charges of the replaced ones.
+    internalPlan.chargeWrap = memoryBudget === Infinity
+      ? (wrap) => wrap
+      : chargedWrap;
+
+    // After an abort, or after a failure under the fail-fast policy,
+    // nothing new starts; the run only drains the running invocations.
+    const isStopped = () =>
+      (signal?.aborted ?? false) ||
+      (failFast && invocationErrors.length > 0);
+
+    // Invocations over the memory budget wait here, in the order they
+    // became free. Only the first one is retried whenever an invocation
+    // settles; the others keep their turns.
+    const delayedInvocations = new Queue<Invocation>();
+    const allocatesOutputs = (invocation: Invocation): boolean =>
+      invocation.outputs.some((output) => {
+        const type = internalPlan.dataSlots.get(output[handleIdKey])?.type;
+        return (type === "intermediate" || type === "memoizedIntermediate") &&
+          !invocation.transferredOutputs.includes(output);
+      });
 
-        continue;
+    // Returns false if the invocation is delayed by the memory budget.
+    const tryStart = (invocation: Invocation): boolean => {
+      try {
+        if (!admit(invocation)) {
+          return false;
+        }
+      } catch (err: unknown) {
+        // The invocation never starts; its references are released with
+        // the other unstarted invocations.
+        invocationErrors.push(err);
+        failedInvocations.push(invocation);
+        if (failFast) {
+          stop();
+        }
+        return true;
       }
 
-      const scheduler = plan.context[contextOptionsKey].scheduler;
       runningInvocations.add(invocation.id);
       startedInvocations.add(invocation.id);
-      scheduler.spawn(invocation.body!)
+      const descriptor = describeInvocation(plan, invocation);
+      scheduler.spawn(timed(invocation, descriptor), descriptor)
         .then(() => {
+          completedInvocations.add(invocation.id);
           for (const next of invocation.next) {
             if (next.numResolvedBlockers >= next.numBlockers) {
               throw new LogicError("the invocation is resolved twice");
             }
             next.numResolvedBlockers++;
             if (next.numResolvedBlockers >= next.numBlockers) {
+              tracer?.({
+                type: "invocationReady",
+                time: performance.now(),
+                invocation: describeInvocation(plan, next),
+              });
               freeInvocations.push(next);
             }
           }
+          startFreeInvocations();
         })
         .catch((err: unknown) => {
           invocationErrors.push(err);
+          failedInvocations.push(invocation);
+          if (failFast) {
+            stop();
+          }
         })
         .finally(() => {
           runningInvocations.delete(invocation.id);
+          // Failures release buffers too, and the last invocation to
+          // settle lets an invocation over the budget start.
+          startFreeInvocations();
           notify();
         });
+      return true;
+    };
+
+    // Invocations are started as soon as they become free, in the same
+    // microtask that resolves their last blocker, so that a scheduler sees
+    // them together with the tasks already waiting on it.
+    const startFreeInvocations = () => {
+      while (!isStopped() && delayedInvocations.length > 0) {
+        if (!tryStart(delayedInvocations.peek()!)) {
+          break;
+        }
+        delayedInvocations.shift();
+      }
+      while (!isStopped()) {
+        const invocation = freeInvocations.shift();
+        if (invocation == null) {
+          return;
+        }
+        // Behind a delayed invocation, an invocation allocating outputs
+        // waits for its turn instead of overtaking it.
+        if (
+          (delayedInvocations.length > 0 && allocatesOutputs(invocation)) ||
+          !tryStart(invocation)
+        ) {
+          delayedInvocations.push(invocation);
+        }
+      }
+    };
+
+    startFreeInvocations();
+    while (runningInvocations.size > 0) {
+      await condvar;
+      ({ promise: condvar, resolve: notify } = Promise.withResolvers<void>());
     }
+    aborted = signal?.aborted ?? false;
 
     // Dependency cycles are rejected when the dependency maps are built,
     // and skipped invocations were removed from the plan by the pruning
@@ -1723,15 +3792,62 @@ async function runPlan(
     // whose blockers never resolve would otherwise be dropped, resolving
     // the run as a silent no-op.
     if (
+      !aborted &&
       invocationErrors.length === 0 &&
       startedInvocations.size < internalPlan.invocations.size
     ) {
       invocationErrors.push(
         new LogicError("some invocations never became free to run"),
       );
+      failedInvocations.push(null);
+    }
+
+    // Transactional destinations are committed only after every invocation
+    // succeeded. A throwing commit fails the run, leaving the destinations
+    // not committed yet untouched.
+    const committedStagings = new Set<HandleId>();
+    if (!aborted && invocationErrors.length === 0) {
+      try {
+        for (const [id, dataSlot] of internalPlan.dataSlots) {
+          if (dataSlot.type !== "destination" || dataSlot.stagedWrap == null) {
+            continue;
+          }
+          committedStagings.add(id);
+          dataSlot.staging!.commit(dataSlot.body, dataSlot.stagedWrap.body);
+        }
+      } catch (e: unknown) {
+        invocationErrors.push(e);
+        failedInvocations.push(null);
+      }
     }
 
-    if (invocationErrors.length > 0) {
+    if (aborted || invocationErrors.length > 0) {
+      // Invocations that never started still hold references to their
+      // intermediate inputs and outputs; drop them so the buffers go back
+      // to their providers exactly as if the invocations had finished.
+      releaseUnstartedInvocations(plan, startedInvocations);
+
+      // A failed run commits no staging buffer, or only part of them when a
+      // commit throws, so the writers of transactional destinations have not
+      // completed.
+      for (const [id, dataSlot] of internalPlan.dataSlots) {
+        if (dataSlot.type === "destination" && dataSlot.staging != null) {
+          const producer = dependencyMaps.producerByHandle.get(id);
+          if (producer != null) {
+            completedInvocations.delete(producer.id);
+          }
+        }
+      }
+
+      if (commitPartialResults) {
+        commitCompletedInvocations(
+          plan,
+          dependencyMaps,
+          pruneResult,
+          completedInvocations,
+        );
+      }
+
       // Invocations that started executing may have written their
       // destinations, even the ones that succeeded, and a failed run never
       // reports versions, so the caller's stored claims can go stale. Drop
@@ -1740,48 +3856,393 @@ async function runPlan(
       // them instead of trusting the records. Memoized and plain
       // intermediates are produced into fresh buffers that a failed run
       // releases, so their records still describe the retained content and
-      // are kept. Records produced by this run are never committed on
-      // failure.
+      // are kept, and so are the records of transactional destinations left
+      // untouched. Records produced by this run are never committed on
+      // failure, except for those of the completed invocations when partial
+      // results are committed; their versions are reported.
       if (pruneResult != null) {
         for (const id of startedInvocations) {
+          if (commitPartialResults && completedInvocations.has(id)) {
+            continue;
+          }
           const draft = pruneResult.drafts.get(id);
           const invocation = internalPlan.invocations.get(id);
           if (draft == null || invocation == null) {
             continue;
           }
           const writesInPlace = invocation.outputs.some((output) => {
-            const dataSlot = internalPlan.dataSlots.get(output[handleIdKey]);
-            return dataSlot?.type === "destination" ||
+            const outputID = output[handleIdKey];
+            const dataSlot = internalPlan.dataSlots.get(outputID);
+            return (dataSlot?.type === "destination" &&
+              (dataSlot.staging == null || committedStagings.has(outputID))) ||
               dataSlot?.type === "externalIntermediate";
           });
           if (writesInPlace) {
             pruneResult.graphRun.invalidate(draft);
+            tracer?.({
+              type: "graphInvalidate",
+              time: performance.now(),
+              invocation: describeInvocation(plan, invocation),
+            });
+          }
+        }
+      }
+
+      if (aborted) {
+        throw new RunAbortedError("the run is aborted", {
+          cause: signal?.reason,
+        });
+      }
+      for (let i = 0; i < invocationErrors.length; i++) {
+        const invocation = failedInvocations[i];
+        if (invocation != null) {
+          invocationErrors[i] = createInvocationError(
+            plan,
+            invocation,
+            invocationErrors[i],
+            startedInvocations,
+          );
+        }
+      }
+      if (failFast) {
+        const unstartedInvocations: InvocationDescriptor[] = [];
+        for (const invocation of internalPlan.invocations.values()) {
+          if (!startedInvocations.has(invocation.id)) {
+            unstartedInvocations.push(describeInvocation(plan, invocation));
           }
         }
+        throw new FailFastError(invocationErrors, unstartedInvocations);
+      }
+      if (invocationErrors.length === 1) {
+        throw invocationErrors[0];
+      }
+      throw new AggregateError(invocationErrors, "invocation failed");
+    }
+
+    if (pruneResult != null) {
+      pruneResult.graphRun.commit();
+      tracer?.({ type: "graphCommit", time: performance.now() });
+    }
+    retainMemoizedBuffers(plan, pruneResult != null);
+    notifyResolvedVersions(plan);
+
+    let numInPlace = 0;
+    const changedDestinations: unknown[] = [];
+    for (const invocation of internalPlan.invocations.values()) {
+      if (invocation.inPlace) {
+        numInPlace++;
+      }
+      for (const output of invocation.outputs) {
+        const dataSlot = internalPlan.dataSlots.get(output[handleIdKey]);
+        // A destination whose claimed version is resolved again was
+        // rewritten with the content it already held.
+        if (
+          dataSlot?.type === "destination" &&
+          (dataSlot.version == null ||
+            dataSlot.version !== dataSlot.resolvedVersion)
+        ) {
+          changedDestinations.push(dataSlot.body);
+        }
       }
+    }
+    report = {
+      numExecuted: internalPlan.invocations.size,
+      numSkipped: numSubmitted - internalPlan.invocations.size,
+      numInPlace,
+      procs: [...procExecutions].map(([procID, executions]) => ({
+        procID,
+        ...executions,
+      })),
+      planningTime: pruningStartTime - internalPlan.startTime,
+      pruningTime: executionStartTime - pruningStartTime,
+      executionTime: performance.now() - executionStartTime,
+      numBuffersAcquired: bufferCounters.numAcquired,
+      numBuffersReleased: bufferCounters.numReleased,
+      numRetainedBuffersReused: reusedRetainedBuffers.size,
+      changedDestinations,
+    };
+    succeeded = true;
+  } finally {
+    settled = true;
+    signal?.removeEventListener("abort", stop);
+    stop();
+    try {
+      ensureAllIntermediateSlotsFreed(plan, abandonedHandles);
+    } catch (error) {
+      cleanupError = error;
+    }
+    tracer?.({
+      type: "planEnd",
+      time: performance.now(),
+      succeeded: succeeded && cleanupError === undefined,
+    });
+
+    releaseContext(context);
+  }
+
+  if (cleanupError !== undefined && invocationErrors.length === 0) {
+    throw cleanupError;
+  }
+  return report;
+}
+
+/**
+ * An internal function to commit the partial results of a failed or aborted
+ * run: the records of the completed invocations, i.e. the executed ones that
+ * succeeded and the skipped ones, the versions of the destinations they
+ * wrote and the buffers of the memoized intermediates they wrote. An
+ * invocation completes only after its entire upstream completed, so these
+ * results are exactly the ones a successful run would have committed for
+ * them. It must be called after the running invocations settled and before
+ * the records of the other started invocations are invalidated.
+ * @param plan The plan of the run.
+ * @param dependencyMaps The dependency maps of the plan as submitted.
+ * @param pruneResult The result of the incremental pass, or null when the
+ * plan was not resolved against the graph.
+ * @param completedInvocations The executed invocations that succeeded.
+ */
+function commitCompletedInvocations(
+  plan: Plan,
+  dependencyMaps: DependencyMaps,
+  pruneResult: PruneResult | null,
+  completedInvocations: ReadonlySet<InvocationID>,
+): void {
+  const internalPlan = plan[internalPlanKey];
+  const tracer = plan.context[contextOptionsKey].tracer;
+  const drafts: InvocationDraft[] = [];
+  const completedHandles = new Set<HandleId>();
+  for (const invocation of dependencyMaps.order) {
+    if (
+      internalPlan.invocations.has(invocation.id) &&
+      !completedInvocations.has(invocation.id)
+    ) {
+      continue;
+    }
+    const draft = pruneResult?.drafts.get(invocation.id);
+    if (draft != null) {
+      drafts.push(draft);
+    }
+    for (const output of invocation.outputs) {
+      completedHandles.add(output[handleIdKey]);
+    }
+  }
 
-      if (invocationErrors.length === 1) {
-        throw invocationErrors[0];
+  if (pruneResult != null) {
+    pruneResult.graphRun.commitPartially(drafts);
+    tracer?.({ type: "graphCommit", time: performance.now() });
+  }
+  // The records the run did not publish are kept, so the retained buffers
+  // they refer to are kept as well.
+  retainMemoizedBuffers(plan, false, completedHandles);
+  notifyResolvedVersions(plan, completedHandles);
+}
+
+/**
+ * An internal function to describe an invocation to the outside of a run.
+ * It must be called after prepareInvocations, which resolves the body
+ * variant and the downstream invocations.
+ * @param plan The plan the invocation belongs to.
+ * @param invocation The invocation to describe.
+ * @returns The descriptor of the invocation.
+ */
+function describeInvocation(
+  plan: Plan,
+  invocation: Invocation,
+): InvocationDescriptor {
+  return {
+    procID: invocation.procID,
+    procName: invocation.procName,
+    invocationID: invocation.id,
+    inputIDs: invocation.inputs.map((input) => input[handleIdKey]),
+    outputIDs: invocation.outputs.map((output) => output[handleIdKey]),
+    inputKinds: invocation.inputs.map((input) => handleKind(plan, input)),
+    outputKinds: invocation.outputs.map((output) => handleKind(plan, output)),
+    inPlace: invocation.inPlace,
+    // `next` holds a downstream invocation once per consuming reference.
+    numDownstreamInvocations: new Set(invocation.next).size,
+    cost: invocation.cost,
+    criticalPathLength: invocation.criticalPathLength,
+  };
+}
+
+/**
+ * An internal function to get the kind of the data slot behind a handle.
+ * @param plan The plan the handle belongs to.
+ * @param handle The handle to get the kind of.
+ * @returns The kind of the handle.
+ */
+function handleKind(plan: Plan, handle: UntypedHandle): HandleKind {
+  const dataSlot = plan[internalPlanKey].dataSlots.get(handle[handleIdKey]);
+  if (dataSlot == null) {
+    throw new LogicError(`dataSlot not found for handle: ${handle}`);
+  }
+  return dataSlot.type;
+}
+
+/**
+ * An internal function to wrap the error of a failed invocation with the
+ * description of the invocation and the downstream invocations that never
+ * started because of it.
+ * @param plan The plan the invocation belongs to.
+ * @param invocation The failed invocation.
+ * @param cause The error of the failed invocation.
+ * @param startedInvocations The invocations that started executing.
+ * @returns The wrapped error.
+ */
+function createInvocationError(
+  plan: Plan,
+  invocation: Invocation,
+  cause: unknown,
+  startedInvocations: ReadonlySet<InvocationID>,
+): InvocationError {
+  const unstartedInvocations: InvocationDescriptor[] = [];
+  const visited = new Set<InvocationID>([invocation.id]);
+  const queue = new Queue<Invocation>();
+  queue.push(invocation);
+  while (queue.length > 0) {
+    for (const next of queue.shift()!.next) {
+      if (visited.has(next.id) || startedInvocations.has(next.id)) {
+        continue;
       }
-      throw new AggregateError(invocationErrors, "invocation failed");
+      visited.add(next.id);
+      unstartedInvocations.push(describeInvocation(plan, next));
+      queue.push(next);
     }
+  }
+  return new InvocationError(
+    formatInvocation(plan, invocation),
+    describeInvocation(plan, invocation),
+    cause,
+    unstartedInvocations,
+  );
+}
 
-    pruneResult?.graphRun.commit();
-    retainMemoizedBuffers(plan, pruneResult != null);
-    notifyResolvedVersions(plan);
-  } finally {
-    try {
-      ensureAllIntermediateSlotsFreed(plan);
-    } catch (error) {
-      cleanupError = error;
+/**
+ * An internal function to format a handle for diagnostics: its label, or
+ * its kind and ID if it has none.
+ * @param plan The plan the handle belongs to.
+ * @param handle The handle to format.
+ * @returns The formatted handle.
+ */
+function formatHandle(plan: Plan, handle: UntypedHandle): string {
+  const internalPlan = plan[internalPlanKey];
+  const id = handle[handleIdKey];
+  const label = internalPlan.labels.get(id);
+  if (label != null) {
+    return label;
+  }
+  // Slots of pruned intermediates are gone, but their handles may still be
+  // mentioned.
+  return `${internalPlan.dataSlots.get(id)?.type ?? "handle"}#${id}`;
+}
+
+/**
+ * An internal function to format the call sites where invocations and
+ * handles were created, one per line, to be appended to an error message.
+ * Call sites are only captured in the debug mode of the context.
+ * @param plan The plan the invocations and handles belong to.
+ * @param invocations The invocations to format the call sites of.
+ * @param handles The handles to format the call sites of.
+ * @returns The formatted call sites, or an empty string if none was
+ * captured.
+ */
+function formatCreationSites(
+  plan: Plan,
+  invocations: readonly Invocation[],
+  handles: readonly UntypedHandle[],
+): string {
+  const internalPlan = plan[internalPlanKey];
+  const lines: string[] = [];
+  for (const invocation of invocations) {
+    const site = internalPlan.invocationCreationSites.get(invocation.id);
+    if (site != null) {
+      lines.push(
+        `\n  ${formatInvocation(plan, invocation)} created at ${site}`,
+      );
+    }
+  }
+  for (const handle of handles) {
+    const site = internalPlan.handleCreationSites.get(handle[handleIdKey]);
+    if (site != null) {
+      lines.push(`\n  ${formatHandle(plan, handle)} created at ${site}`);
     }
+  }
+  return lines.join("");
+}
+
+/**
+ * An internal function to format an invocation for diagnostics like a call
+ * of its procedure, e.g. `blur(out=frameBuffer, in=image)`.
+ * @param plan The plan the invocation belongs to.
+ * @param invocation The invocation to format.
+ * @returns The formatted invocation.
+ */
+function formatInvocation(plan: Plan, invocation: Invocation): string {
+  const args = [
+    ...invocation.outputs.map((output) => `out=${formatHandle(plan, output)}`),
+    ...invocation.inputs.map((input) => `in=${formatHandle(plan, input)}`),
+  ];
+  return `${invocation.procName || "anonymous"}(${args.join(", ")})`;
+}
 
-    context[stateKey] = "idle";
+/**
+ * An internal function to drop the references held by the invocations that
+ * never started, e.g. because the run failed or was aborted before they
+ * became free. Their intermediate buffers are released through the same
+ * reference counts as if the invocations had finished.
+ * @param plan The plan whose unstarted invocations are released.
+ * @param startedInvocations The invocations that started executing.
+ */
+function releaseUnstartedInvocations(
+  plan: Plan,
+  startedInvocations: ReadonlySet<InvocationID>,
+): void {
+  for (const invocation of plan[internalPlanKey].invocations.values()) {
+    if (startedInvocations.has(invocation.id)) {
+      continue;
+    }
+    decRefArray(plan, invocation.inputs);
+    decRefArray(plan, invocation.outputs);
   }
+}
 
-  if (cleanupError !== undefined && invocationErrors.length === 0) {
-    throw cleanupError;
+/**
+ * An internal function to analyze the wiring of a plan as submitted: it
+ * derives the dependency structure, rejects invalid wiring and resolves the
+ * bodies of the invocations. Nothing of it depends on the bound objects or
+ * on pruning, so a compiled plan does it only once.
+ * @param plan The plan to analyze.
+ * @returns The dependency maps of the plan.
+ * @throws PreconditionError If the plan is wired invalidly.
+ */
+function analyzePlanWiring(plan: Plan): DependencyMaps {
+  const dependencyMaps = buildDependencyMaps(plan);
+  validatePlanWiring(plan, dependencyMaps);
+
+  // The in-place/out-of-place variant selection must depend only on the
+  // wiring as submitted, not on this run's pruning: the graph carries
+  // recorded versions over on the assumption that a re-execution reproduces
+  // the recorded content, and the variant can change the produced content
+  // (e.g. through the shape of the output buffer).
+  const resolveContext: ResolveContext = {
+    plan,
+    consumersByHandle: dependencyMaps.consumersByHandle,
+  };
+  for (const invocation of plan[internalPlanKey].invocations.values()) {
+    const { body, inPlace, transferredOutputs } = invocation.resolveBody(
+      resolveContext,
+    );
+    invocation.body = applyMiddlewares(
+      plan,
+      invocation,
+      () => callBody(plan.context, body),
+      inPlace,
+    );
+    invocation.inPlace = inPlace;
+    invocation.transferredOutputs = transferredOutputs;
   }
+
+  return dependencyMaps;
 }
 
 /**
@@ -1794,11 +4255,11 @@ async function runPlan(
 function prepareInvocations(
   plan: Plan,
   dependencyMaps: DependencyMaps,
-): Invocation[] {
-  const freeInvocations: Invocation[] = [];
+): Queue<Invocation> {
+  const freeInvocations = new Queue<Invocation>();
 
   const invocations = plan[internalPlanKey].invocations;
-  const { producerByHandle, consumersByHandle } = dependencyMaps;
+  const { producerByHandle } = dependencyMaps;
 
   for (const invocation of invocations.values()) {
     let numBlockers = 0;
@@ -1818,14 +4279,19 @@ function prepareInvocations(
     invocation.numBlockers = numBlockers;
   }
 
-  // The in-place/out-of-place variant selection must depend only on the
-  // wiring as submitted, not on this run's pruning: the graph carries
-  // recorded versions over on the assumption that a re-execution reproduces
-  // the recorded content, and the variant can change the produced content
-  // (e.g. through the shape of the output buffer).
-  const resolveContext: ResolveContext = { plan, consumersByHandle };
-  for (const invocation of invocations.values()) {
-    invocation.body = invocation.resolveBody(resolveContext);
+  // Consumers come after their producers in the topological order, so a
+  // reverse sweep sees every downstream path length before it is needed.
+  const { order } = dependencyMaps;
+  for (let i = order.length - 1; i >= 0; i--) {
+    const invocation = order[i];
+    if (!invocations.has(invocation.id)) {
+      continue;
+    }
+    let downstream = 0;
+    for (const next of invocation.next) {
+      downstream = Math.max(downstream, next.criticalPathLength);
+    }
+    invocation.criticalPathLength = invocation.cost + downstream;
   }
 
   for (const invocation of invocations.values()) {
@@ -1855,9 +4321,8 @@ type DependencyMaps = {
  * @returns The dependency maps of the invocations.
  * @throws PreconditionError If the invocations form a dependency cycle.
  */
-function buildDependencyMaps(
-  invocations: Map<InvocationID, Invocation>,
-): DependencyMaps {
+function buildDependencyMaps(plan: Plan): DependencyMaps {
+  const invocations = plan[internalPlanKey].invocations;
   const producerByHandle = new Map<HandleId, Invocation>();
   for (const invocation of invocations.values()) {
     for (const output of invocation.outputs) {
@@ -1884,50 +4349,103 @@ function buildDependencyMaps(
     }
   }
 
-  // NB: The traversal is recursive, so the supported plan depth is bounded
-  // by the call stack: a producer-consumer chain of several thousand
-  // invocations overflows it with a RangeError before anything executes.
+  // Kahn's algorithm: the order doubles as the queue of the invocations
+  // whose producers are all ordered, so the sort is iterative and linear in
+  // the size of the plan however deep it is.
+  const numUnorderedProducers = new Map<InvocationID, number>();
   const order: Invocation[] = [];
-  const visited = new Map<InvocationID, "temporary" | "permanent">();
-  const visit = (invocation: Invocation) => {
-    const mark = visited.get(invocation.id);
-    switch (mark) {
-      case "permanent":
-        return;
-      case "temporary":
-        throw new PreconditionError(
-          "the invocations form a dependency cycle and cannot be executed",
-        );
-      case undefined:
-        break;
-      default:
-        unreachable(mark);
+  for (const invocation of invocations.values()) {
+    let count = 0;
+    for (const input of invocation.inputs) {
+      if (producerByHandle.has(input[handleIdKey])) {
+        count++;
+      }
     }
+    numUnorderedProducers.set(invocation.id, count);
+    if (count === 0) {
+      order.push(invocation);
+    }
+  }
 
-    visited.set(invocation.id, "temporary");
-
-    for (const output of invocation.outputs) {
+  for (let i = 0; i < order.length; i++) {
+    for (const output of order[i].outputs) {
       const consumers = consumersByHandle.get(output[handleIdKey]);
       if (consumers == null) {
         continue;
       }
 
+      // A consumer reading the output through several inputs is listed
+      // once per input, matching the count above.
       for (const consumer of consumers) {
-        visit(consumer);
+        const count = numUnorderedProducers.get(consumer.id)! - 1;
+        numUnorderedProducers.set(consumer.id, count);
+        if (count === 0) {
+          order.push(consumer);
+        }
       }
     }
+  }
+
+  // The invocations on or downstream of a cycle never run out of unordered
+  // producers.
+  if (order.length < invocations.size) {
+    const cycle = findCycle(producerByHandle, numUnorderedProducers);
+    throw new PreconditionError(
+      `the invocations form a dependency cycle and cannot be executed: ${
+        [...cycle, cycle[0]].map((invocation) =>
+          formatInvocation(plan, invocation)
+        ).join(" -> ")
+      }${formatCreationSites(plan, cycle, [])}`,
+    );
+  }
+
+  return { producerByHandle, consumersByHandle, order };
+}
 
-    visited.set(invocation.id, "permanent");
-    order.push(invocation);
+/**
+ * An internal function to find a dependency cycle among the invocations
+ * that Kahn's algorithm left unordered. Each of them has an unordered
+ * producer, so walking up the producers must come back to an invocation
+ * already visited.
+ * @param producerByHandle The producer of each handle.
+ * @param numUnorderedProducers The number of unordered producers of each
+ * invocation after the sort.
+ * @returns The invocations of the cycle, each producing an input of the
+ * next one and the last producing an input of the first.
+ */
+function findCycle(
+  producerByHandle: Map<HandleId, Invocation>,
+  numUnorderedProducers: Map<InvocationID, number>,
+): Invocation[] {
+  const unorderedProducerOf = (invocation: Invocation): Invocation => {
+    for (const input of invocation.inputs) {
+      const producer = producerByHandle.get(input[handleIdKey]);
+      if (producer != null && numUnorderedProducers.get(producer.id)! > 0) {
+        return producer;
+      }
+    }
+    throw new LogicError("an unordered invocation has no unordered producer");
   };
 
-  for (const invocation of invocations.values()) {
-    visit(invocation);
+  let current: Invocation | undefined;
+  for (const producer of producerByHandle.values()) {
+    if (numUnorderedProducers.get(producer.id)! > 0) {
+      current = producer;
+      break;
+    }
+  }
+  if (current == null) {
+    throw new LogicError("no unordered invocation produces a handle");
   }
 
-  order.reverse();
-
-  return { producerByHandle, consumersByHandle, order };
+  const path: Invocation[] = [];
+  const positions = new Map<InvocationID, number>();
+  while (!positions.has(current.id)) {
+    positions.set(current.id, path.length);
+    path.push(current);
+    current = unorderedProducerOf(current);
+  }
+  return path.slice(positions.get(current.id)).reverse();
 }
 
 /**
@@ -1959,12 +4477,20 @@ function validatePlanWiring(
           // Caller-managed content is always readable.
           break;
         case "destination":
-          throw new PreconditionError("destination handle is read");
+          throw new PreconditionError(
+            `destination handle is read: ${formatHandle(plan, input)} in ${
+              formatInvocation(plan, invocation)
+            }${formatCreationSites(plan, [invocation], [input])}`,
+          );
         case "intermediate":
         case "memoizedIntermediate":
           if (!producerByHandle.has(id)) {
             throw new PreconditionError(
-              "intermediate handle is consumed but never produced",
+              `intermediate handle is consumed but never produced: ${
+                formatHandle(plan, input)
+              } in ${formatInvocation(plan, invocation)}${
+                formatCreationSites(plan, [invocation], [input])
+              }`,
             );
           }
           break;
@@ -1979,7 +4505,11 @@ function validatePlanWiring(
         throw new LogicError(`dataSlot not found for handle: ${output}`);
       }
       if (dataSlot.type === "source") {
-        throw new PreconditionError("source handle is written");
+        throw new PreconditionError(
+          `source handle is written: ${formatHandle(plan, output)} in ${
+            formatInvocation(plan, invocation)
+          }${formatCreationSites(plan, [invocation], [output])}`,
+        );
       }
     }
   }
@@ -2029,11 +4559,13 @@ function prepareDataSlots(
 /**
  * The graph session of a pruned plan, used by runPlan to commit the records
  * of a successful run or to drop the records of started invocations on
- * failure.
+ * failure. The unchanged invocations, skipped or not, tell a dry run why an
+ * invocation executes.
  */
 type PruneResult = {
   graphRun: GraphRun;
   drafts: Map<InvocationID, InvocationDraft>;
+  unchangedInvocations: Set<InvocationID>;
 };
 
 /**
@@ -2300,7 +4832,7 @@ function pruneUpToDateInvocations(
   }
 
   if (skippedInvocations.size === 0) {
-    return { graphRun, drafts };
+    return { graphRun, drafts, unchangedInvocations };
   }
 
   // FIXME: modifying data slots here seems to be ad-hoc.
@@ -2340,25 +4872,34 @@ function pruneUpToDateInvocations(
     }
   }
 
-  return { graphRun, drafts };
+  return { graphRun, drafts, unchangedInvocations };
 }
 
 /**
  * An internal function to report the resolved versions of destinations and
  * external intermediates to the caller. It must be called only after all
- * invocations of the plan finished successfully, so that reported versions
- * always describe content that is actually available.
+ * invocations of the plan finished successfully, or with the handles whose
+ * writers completed, so that reported versions always describe content that
+ * is actually available.
  * @param plan The plan whose resolved versions are reported.
+ * @param completedHandles The handles to report the versions of. Defaults to
+ * every handle of the plan.
  */
-function notifyResolvedVersions(plan: Plan): void {
+function notifyResolvedVersions(
+  plan: Plan,
+  completedHandles?: ReadonlySet<HandleId>,
+): void {
   const reportError = plan.context[contextOptionsKey].reportError;
-  for (const dataSlot of plan[internalPlanKey].dataSlots.values()) {
+  for (const [handleID, dataSlot] of plan[internalPlanKey].dataSlots) {
     if (
       dataSlot.type !== "destination" &&
       dataSlot.type !== "externalIntermediate"
     ) {
       continue;
     }
+    if (completedHandles != null && !completedHandles.has(handleID)) {
+      continue;
+    }
     const resolvedVersion = dataSlot.resolvedVersion;
     const setVersion = dataSlot.setVersion;
     if (resolvedVersion == null || setVersion == null) {
@@ -2377,42 +4918,116 @@ function notifyResolvedVersions(plan: Plan): void {
 /**
  * An internal function to release all buffers retained for memoized
  * intermediates back to their providers. It must not run while a run is in
- * flight: an in-flight run may still be reading the retained buffers. An
- * exception thrown by a release is routed to the context's `reportError`.
+ * flight: an in-flight run may still be reading the retained buffers. The
+ * buffers pinned by abandoned bodies are released when the bodies settle.
+ * An exception thrown by a release is routed to the context's
+ * `reportError`.
  * @param context The context whose retained buffers are released.
  */
 function releaseRetainedBuffers(context: Context): void {
-  const reportError = context[contextOptionsKey].reportError;
+  const tracer = context[contextOptionsKey].tracer;
   const retainedBuffers = context[retainedBuffersKey];
   for (const wrap of retainedBuffers.values()) {
-    try {
-      wrap[Symbol.dispose]();
-    } catch (e: unknown) {
-      reportError(e);
-    }
+    tracer?.({ type: "bufferEvict", time: performance.now() });
+    evictRetainedWrap(context, wrap);
   }
   retainedBuffers.clear();
 }
 
+/**
+ * An internal function to release a buffer evicted from the retained
+ * buffers of a context, or to defer the release while bodies abandoned
+ * after their timeouts still read it. An exception thrown by the release is
+ * routed to the context's `reportError`.
+ * @param context The context the buffer was retained in.
+ * @param wrap The evicted buffer.
+ */
+function evictRetainedWrap(
+  context: Context,
+  wrap: DisposableWrap<unknown>,
+): void {
+  const pinned = context[pinnedBuffersKey].get(wrap);
+  if (pinned != null) {
+    pinned.evicted = true;
+    return;
+  }
+  try {
+    wrap[Symbol.dispose]();
+  } catch (e: unknown) {
+    context[contextOptionsKey].reportError(e);
+  }
+}
+
+/**
+ * An internal function to pin a retained buffer read by a body abandoned
+ * after its timeout, so that it is not released before the body settles.
+ * @param context The context the buffer is retained in.
+ * @param wrap The retained buffer.
+ */
+function pinRetainedWrap(
+  context: Context,
+  wrap: DisposableWrap<unknown>,
+): void {
+  const pinnedBuffers = context[pinnedBuffersKey];
+  const pinned = pinnedBuffers.get(wrap);
+  if (pinned == null) {
+    pinnedBuffers.set(wrap, { count: 1, evicted: false });
+  } else {
+    pinned.count++;
+  }
+}
+
+/**
+ * An internal function to unpin a retained buffer when a body abandoned
+ * after its timeout settles, releasing it if it was evicted meanwhile and
+ * no other abandoned body reads it.
+ * @param context The context the buffer is retained in.
+ * @param wrap The retained buffer.
+ */
+function unpinRetainedWrap(
+  context: Context,
+  wrap: DisposableWrap<unknown>,
+): void {
+  const pinnedBuffers = context[pinnedBuffersKey];
+  const pinned = pinnedBuffers.get(wrap);
+  if (pinned == null) {
+    throw new LogicError("the retained buffer is not pinned");
+  }
+  if (--pinned.count > 0) {
+    return;
+  }
+  pinnedBuffers.delete(wrap);
+  if (pinned.evicted) {
+    evictRetainedWrap(context, wrap);
+  }
+}
+
 /**
  * An internal function to retain the buffers of memoized intermediates in
  * the context and to release the retained buffers whose wirings are absent
  * from this run. It must be called only after all invocations of the plan
- * finished successfully: a failed run retains nothing, so the buffers
- * retained by previous runs stay consistent with the committed records.
+ * finished successfully, or with the handles whose writers completed: a
+ * failed run retains nothing else, so the buffers retained by previous runs
+ * stay consistent with the committed records.
  * Buffers produced by wirings that could not be resolved against the graph
  * have no identity to be retained under and are released immediately, like
  * plain intermediates.
  * @param plan The plan whose memoized intermediates are retained.
  * @param versioned Whether the incremental pass resolved this plan; only
  * then does the run's wiring set define which retained buffers survive.
+ * @param completedHandles The handles to retain the buffers of. Defaults to
+ * every handle of the plan.
  */
-function retainMemoizedBuffers(plan: Plan, versioned: boolean): void {
-  const reportError = plan.context[contextOptionsKey].reportError;
+function retainMemoizedBuffers(
+  plan: Plan,
+  versioned: boolean,
+  completedHandles?: ReadonlySet<HandleId>,
+): void {
+  const { reportError, tracer } = plan.context[contextOptionsKey];
   const retainedBuffers = plan.context[retainedBuffersKey];
 
   const touched = new Set<DataID>();
-  for (const dataSlot of plan[internalPlanKey].dataSlots.values()) {
+  for (const [handleID, dataSlot] of plan[internalPlanKey].dataSlots) {
     if (dataSlot.type !== "memoizedIntermediate") {
       continue;
     }
@@ -2421,6 +5036,10 @@ function retainMemoizedBuffers(plan: Plan, versioned: boolean): void {
     if (resolvedDataID != null) {
       touched.add(resolvedDataID);
     }
+    if (completedHandles != null && !completedHandles.has(handleID)) {
+      // The buffer of a failed writer is released with the run.
+      continue;
+    }
 
     const container = dataSlot.disposableWrapContainer;
     if (!container.isInitialized) {
@@ -2441,13 +5060,11 @@ function retainMemoizedBuffers(plan: Plan, versioned: boolean): void {
 
     const previous = retainedBuffers.get(resolvedDataID);
     if (previous != null && previous !== wrap) {
-      try {
-        previous[Symbol.dispose]();
-      } catch (e: unknown) {
-        reportError(e);
-      }
+      tracer?.({ type: "bufferEvict", time: performance.now() });
+      evictRetainedWrap(plan.context, previous);
     }
     retainedBuffers.set(resolvedDataID, wrap);
+    tracer?.({ type: "bufferRetain", time: performance.now(), handleID });
   }
 
   if (!versioned) {
@@ -2457,11 +5074,8 @@ function retainMemoizedBuffers(plan: Plan, versioned: boolean): void {
     if (touched.has(dataID)) {
       continue;
     }
-    try {
-      wrap[Symbol.dispose]();
-    } catch (e: unknown) {
-      reportError(e);
-    }
+    tracer?.({ type: "bufferEvict", time: performance.now() });
+    evictRetainedWrap(plan.context, wrap);
     retainedBuffers.delete(dataID);
   }
 }
@@ -2522,7 +5136,15 @@ function restore<T>(plan: Plan, handle: Handle<T>): T {
       }
       return retainedWrap.body as T;
     }
-    case "destination":
+    case "destination": {
+      // The writer of a transactional destination wrote its staging buffer,
+      // which holds the content until the run commits it.
+      const stagedWrap = dataSlot.stagedWrap;
+      if (dataSlot.staging != null && stagedWrap != null) {
+        return stagedWrap.body as T;
+      }
+      return dataSlot.body as T;
+    }
     case "externalIntermediate": {
       const body = dataSlot.body;
       return body as T;
@@ -2640,11 +5262,16 @@ function decRef(plan: Plan, handle: UntypedHandle): void {
  * @typeparam T The type of the output.
  * @param plan The plan the handle belongs to.
  * @param handle The handle of an output.
+ * @param reprepare Whether a failed attempt may have prepared the output
+ * already. If it did, the buffer of an intermediate or the staging buffer of
+ * a transactional destination is replaced with a fresh one, since the
+ * attempt may have left partial writes in it.
  * @returns The prepared output.
  */
 function prepareOutput<T>(
   plan: Plan,
   handle: Handle<T>,
+  reprepare = false,
 ): T {
   const dataSlot = plan[internalPlanKey].dataSlots.get(handle[handleIdKey]);
   if (dataSlot == null) {
@@ -2657,11 +5284,30 @@ function prepareOutput<T>(
       throw new LogicError(`unexpected data slot type: ${type}`);
     case "intermediate":
     case "memoizedIntermediate": {
-      const disposableWrap = dataSlot.provide();
+      const container = dataSlot.disposableWrapContainer;
+      if (reprepare && container.isInitialized) {
+        const disposableWrap = plan[internalPlanKey].chargeWrap(
+          provideCounted(plan, handle, dataSlot),
+        );
+        container.replace(disposableWrap);
+        return disposableWrap.body as T;
+      }
+      const disposableWrap = dataSlot.providedWrap ??
+        provideCounted(plan, handle, dataSlot);
+      dataSlot.providedWrap = undefined;
       dataSlot.disposableWrapContainer.initialize(disposableWrap);
       return disposableWrap.body as T;
     }
-    case "destination":
+    case "destination": {
+      if (dataSlot.staging == null) {
+        return dataSlot.body as T;
+      }
+      if (reprepare) {
+        disposeStagedWrap(plan, dataSlot);
+      }
+      dataSlot.stagedWrap ??= dataSlot.staging.provide();
+      return dataSlot.stagedWrap.body as T;
+    }
     case "externalIntermediate": {
       const body = dataSlot.body;
       return body as T;
@@ -2671,11 +5317,60 @@ function prepareOutput<T>(
   }
 }
 
+/**
+ * An internal function to provide the buffer of an intermediate, counting
+ * its acquisition and, whenever it happens, its release in the buffer
+ * counters of the run in flight.
+ * @param plan The plan the data slot belongs to.
+ * @param handle The handle of the data slot.
+ * @param dataSlot The data slot to provide the buffer of.
+ * @returns The provided wrap.
+ */
+function provideCounted(
+  plan: Plan,
+  handle: UntypedHandle,
+  dataSlot: IntermediateSlot | MemoizedIntermediateSlot,
+): DisposableWrap<unknown> {
+  const context = plan.context;
+  const wrap = dataSlot.provide();
+  const handleID = handle[handleIdKey];
+  const size = wrap.size;
+  context[bufferCountersKey].numAcquired++;
+  context[contextOptionsKey].tracer?.({
+    type: "bufferAcquire",
+    time: performance.now(),
+    handleID,
+    size,
+  });
+  let released = false;
+  return {
+    get body() {
+      return wrap.body;
+    },
+    size,
+    [Symbol.dispose]() {
+      if (!released) {
+        released = true;
+        context[bufferCountersKey].numReleased++;
+        context[contextOptionsKey].tracer?.({
+          type: "bufferRelease",
+          time: performance.now(),
+          handleID,
+          size,
+        });
+      }
+      wrap[Symbol.dispose]();
+    },
+  };
+}
+
 /**
  * An internal function to prepare multiple outputs for the execution of an invocation.
  * @typeparam T The type of the outputs.
  * @param plan The plan the handles belong to.
  * @param handles The handles of outputs.
+ * @param reprepare Whether a failed attempt may have prepared the outputs
+ * already (see prepareOutput).
  * @returns The prepared outputs.
  */
 function prepareMultipleOutput<
@@ -2683,12 +5378,14 @@ function prepareMultipleOutput<
 >(
   plan: Plan,
   handles: T,
+  reprepare = false,
 ): MappedBodyType<T> {
   const partialPrepared = [];
   for (let i = 0; i < handles.length; i++) {
     partialPrepared.push(prepareOutput(
       plan,
       handles[i],
+      reprepare,
     ));
   }
   return partialPrepared as MappedBodyType<T>;
@@ -2697,10 +5394,18 @@ function prepareMultipleOutput<
 /**
  * An internal function to assert no leak.
  * @param plan The plan to check.
+ * @param abandonedHandles The intermediates still used by the bodies
+ * abandoned after their timeouts, which are left as they are.
  */
-function ensureAllIntermediateSlotsFreed(plan: Plan) {
-  let hasLeak = false;
-  for (const dataSlot of plan[internalPlanKey].dataSlots.values()) {
+function ensureAllIntermediateSlotsFreed(
+  plan: Plan,
+  abandonedHandles: ReadonlyMap<HandleId, number>,
+) {
+  const leakedHandles: HandleId[] = [];
+  for (const [id, dataSlot] of plan[internalPlanKey].dataSlots) {
+    if (abandonedHandles.has(id)) {
+      continue;
+    }
     const type = dataSlot.type;
     switch (type) {
       case "source":
@@ -2710,9 +5415,10 @@ function ensureAllIntermediateSlotsFreed(plan: Plan) {
         // a non-freed container here is a dangling handle no invocation
         // consumed.
         if (!dataSlot.disposableWrapContainer.isFreed) {
-          hasLeak = true;
+          leakedHandles.push(id);
         }
         dataSlot.disposableWrapContainer.forceCleanUp();
+        disposeProvidedWrap(plan, dataSlot);
         break;
       case "memoizedIntermediate":
         // An uninitialized container is normal here: the writing invocation
@@ -2724,11 +5430,15 @@ function ensureAllIntermediateSlotsFreed(plan: Plan) {
           dataSlot.disposableWrapContainer.isInitialized &&
           !dataSlot.disposableWrapContainer.isFreed
         ) {
-          hasLeak = true;
+          leakedHandles.push(id);
         }
         dataSlot.disposableWrapContainer.forceCleanUp();
+        disposeProvidedWrap(plan, dataSlot);
         break;
       case "destination":
+        // The staging buffer of a transactional destination is released
+        // whether it was committed or not.
+        disposeStagedWrap(plan, dataSlot);
         break;
       case "externalIntermediate":
         break;
@@ -2736,22 +5446,158 @@ function ensureAllIntermediateSlotsFreed(plan: Plan) {
         return unreachable(type);
     }
   }
-  if (plan.context[contextOptionsKey].assertNoLeak && hasLeak) {
+  if (
+    plan.context[contextOptionsKey].assertNoLeak && leakedHandles.length > 0
+  ) {
     throw new AssertionError(
-      "intermediate data slot is not freed",
+      `intermediate data slot is not freed: ${
+        leakedHandles.map((id) => formatLeakedHandle(plan, id)).join(", ")
+      }`,
+    );
+  }
+}
+
+/**
+ * An internal function to format a leaked intermediate handle for the leak
+ * assertion, together with the invocation writing it.
+ * @param plan The plan the handle belongs to.
+ * @param id The ID of the leaked handle.
+ * @returns The formatted handle.
+ */
+function formatLeakedHandle(plan: Plan, id: HandleId): string {
+  for (const invocation of plan[internalPlanKey].invocations.values()) {
+    const output = invocation.outputs.find((output) =>
+      output[handleIdKey] === id
     );
+    if (output != null) {
+      return `${formatHandle(plan, output)} written by ${
+        formatInvocation(plan, invocation)
+      }`;
+    }
+  }
+  return `intermediate#${id}`;
+}
+
+/**
+ * An internal function to dispose of a wrap provided ahead of the execution
+ * of an invocation that never took it over, i.e. the invocation failed
+ * before preparing its outputs or never started. It is not a leak.
+ * @param plan The plan the data slot belongs to.
+ * @param dataSlot The data slot to dispose of the provided wrap of.
+ */
+function disposeProvidedWrap(
+  plan: Plan,
+  dataSlot: IntermediateSlot | MemoizedIntermediateSlot,
+) {
+  const providedWrap = dataSlot.providedWrap;
+  dataSlot.providedWrap = undefined;
+  try {
+    providedWrap?.[Symbol.dispose]();
+  } catch (e: unknown) {
+    plan.context[contextOptionsKey].reportError(e);
   }
 }
 
 /**
- * An internal function to apply the middlewares to the body function.
- * @param body The body function.
- * @param middlewares The middlewares to apply.
+ * An internal function to release the staging buffer of a transactional
+ * destination, whether it was committed or not.
+ * @param plan The plan the data slot belongs to.
+ * @param dataSlot The data slot to release the staging buffer of.
+ */
+function disposeStagedWrap(plan: Plan, dataSlot: DestinationSlot) {
+  const stagedWrap = dataSlot.stagedWrap;
+  dataSlot.stagedWrap = undefined;
+  try {
+    stagedWrap?.[Symbol.dispose]();
+  } catch (e: unknown) {
+    plan.context[contextOptionsKey].reportError(e);
+  }
+}
+
+/**
+ * An internal function to apply the middlewares to the body function of an
+ * invocation. The middlewares of the context are applied outside the ones of
+ * the proc. While the chain runs, the intermediate outputs are referenced
+ * once more so that the middlewares can restore them after the body even if
+ * nothing consumes them.
+ * @param plan The plan the invocation belongs to.
+ * @param invocation The invocation to execute.
+ * @param body The resolved body function.
+ * @param inPlace Whether the body is the in-place variant.
  * @returns The body function with the middlewares applied.
  */
 function applyMiddlewares(
+  plan: Plan,
+  invocation: Invocation,
   body: InvocationBodyFn,
-  middlewares: MiddlewareFn[],
+  inPlace: boolean,
 ): InvocationBodyFn {
-  return middlewares.reduceRight<InvocationBodyFn>((f, m) => () => m(f), body);
+  const middlewares = invocation.ignoresContextMiddlewares
+    ? invocation.middlewares
+    : [
+      ...plan.context[contextOptionsKey].middlewares,
+      ...invocation.middlewares,
+    ];
+  if (middlewares.length === 0) {
+    return body;
+  }
+
+  return async () => {
+    let stage: "ready" | "running" | "completed" = "ready";
+    const info: MiddlewareInfo = {
+      procID: invocation.procID,
+      procName: invocation.procName,
+      invocationID: invocation.id,
+      inPlace,
+      inputs: () => {
+        if (stage !== "ready") {
+          throw new PreconditionError(
+            "inputs must be restored before calling next",
+          );
+        }
+        return restoreInputs(plan, invocation.inputs);
+      },
+      outputs: () => {
+        if (stage !== "completed") {
+          throw new PreconditionError(
+            "outputs must be restored after the body completes",
+          );
+        }
+        return restoreInputs(plan, invocation.outputs);
+      },
+    };
+    const chain = middlewares.reduceRight<InvocationBodyFn>(
+      (f, m) => () => m(f, info),
+      async () => {
+        stage = "running";
+        await body();
+        stage = "completed";
+      },
+    );
+
+    for (const output of invocation.outputs) {
+      incRefIntermediate(plan, output);
+    }
+    try {
+      await chain();
+    } finally {
+      decRefArray(plan, invocation.outputs);
+    }
+  };
+}
+
+/**
+ * An internal function to increment the reference count of a handle if it
+ * is a reference-counted intermediate.
+ * @param plan The plan the handle belongs to.
+ * @param handle The handle to increment the reference count of.
+ */
+function incRefIntermediate(plan: Plan, handle: UntypedHandle): void {
+  const dataSlot = plan[internalPlanKey].dataSlots.get(handle[handleIdKey]);
+  if (dataSlot == null) {
+    throw new LogicError(`data slot not saved for handle: ${handle}`);
+  }
+  if (dataSlot.type === "intermediate") {
+    dataSlot.disposableWrapContainer.incRef();
+  }
 }
@@ -0,0 +1,53 @@
+import { Context, proc, run, toFunc } from "./mod.ts";
+import { Box } from "./_testutils/box.ts";
+
+const inc = proc(function incBody(output: Box<number>, input: Box<number>) {
+  output.value = input.value + 1;
+});
+const pureInc = toFunc(inc, () => ({
+  body: new Box<number>(),
+  [Symbol.dispose]: () => {},
+}));
+
+// A plan this deep overflowed the call stack while it was topologically
+// sorted by a recursive traversal.
+Deno.bench({
+  name: "chain of 1M invocations",
+  n: 1,
+  warmup: 0,
+}, async () => {
+  const length = 1_000_000;
+  const result = new Box<number>();
+  await run(new Context(), ({ $s, $d }) => {
+    let x = $s(Box.withValue(0));
+    for (let i = 0; i < length - 1; i++) {
+      x = pureInc(x);
+    }
+    inc($d(result), x);
+  });
+  if (result.value !== length) {
+    throw new Error(`unexpected result: ${result.value}`);
+  }
+});
+
+// Every invocation of a fan-out is in flight at the same time, which bounds
+// its width by the heap rather than by the planner.
+Deno.bench({
+  name: "fan-out of 100k invocations",
+  n: 1,
+  warmup: 0,
+}, async () => {
+  const width = 100_000;
+  const results: Box<number>[] = [];
+  await run(new Context(), ({ $s, $d }) => {
+    const x = $s(Box.withValue(0));
+    for (let i = 0; i < width; i++) {
+      const result = new Box<number>();
+      results.push(result);
+      inc($d(result), x);
+    }
+  });
+  if (results.some((result) => result.value !== 1)) {
+    throw new Error("unexpected result");
+  }
+});
@@ -5,15 +5,24 @@ import {
   assertRejects,
 } from "@std/assert";
 import {
+  compile,
   Context,
+  dryRun,
+  inspect,
   proc,
   procI,
   procN,
   run,
+  RunAbortedError,
+  type RunContext,
+  type RunOptions,
+  type RunReport,
+  RunSupersededError,
   type SetVersionFn,
   toFunc,
   toFuncM,
   toFuncNM,
+  type TraceEvent,
   type Version,
 } from "./mod.ts";
 import { Box } from "./_testutils/box.ts";
@@ -1205,6 +1214,148 @@ Deno.test(async function overlappingRunsAreRejected() {
   testPool.assertNoError();
 });
 
+Deno.test(async function queuedRunsStartInOrder() {
+  const testPool = createBoxedNumberTestPool();
+  const { add, getCount } = createCountingAdd(testPool);
+
+  const ctx = new Context({ ...contextOptions, overlapPolicy: "queue" });
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const out = new Box<number>();
+  const tracker = createVersionTracker();
+  const started: string[] = [];
+  const { promise: gate, resolve: openGate } = Promise.withResolvers<void>();
+
+  const queuedRun = (name: string) =>
+    run(ctx, async ({ $s, $d }) => {
+      started.push(name);
+      if (name === "first") {
+        await gate;
+      }
+      add($d(out, tracker.version, tracker.setVersion), $s(a, 1), $s(b, 1));
+    });
+
+  const runs = [queuedRun("first"), queuedRun("second"), queuedRun("third")];
+  openGate();
+  await Promise.all(runs);
+  assertEquals(started, ["first", "second", "third"]);
+  // Each run sees the records committed by the runs before it.
+  assertEquals(getCount(), 1);
+  assertEquals(out.value, 3);
+
+  // The context becomes idle once the queue is empty.
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function queuedRunsAreCoalesced() {
+  const testPool = createBoxedNumberTestPool();
+  const ctx = new Context({ ...contextOptions, overlapPolicy: "queue" });
+  const started: string[] = [];
+  const { promise: gate, resolve: openGate } = Promise.withResolvers<void>();
+
+  const queuedRun = (name: string, options?: RunOptions) =>
+    run(ctx, async () => {
+      started.push(name);
+      if (name === "first") {
+        await gate;
+      }
+    }, options);
+
+  const first = queuedRun("first", { coalesceKey: "render" });
+  const superseded = queuedRun("superseded", { coalesceKey: "render" });
+  const other = queuedRun("other", { coalesceKey: "other" });
+  const latest = queuedRun("latest", { coalesceKey: "render" });
+  // An aborted run supersedes nothing.
+  const controller = new AbortController();
+  controller.abort();
+  await assertRejects(
+    () =>
+      queuedRun("aborted", {
+        coalesceKey: "render",
+        signal: controller.signal,
+      }),
+    RunAbortedError,
+  );
+
+  // A queued run is superseded by a later one with the same key; the run in
+  // flight is not.
+  await assertRejects(() => superseded, RunSupersededError);
+  openGate();
+  await Promise.all([first, other, latest]);
+  assertEquals(started, ["first", "other", "latest"]);
+  testPool.assertNoError();
+});
+
+Deno.test(async function abortedQueuedRunLeavesQueue() {
+  const testPool = createBoxedNumberTestPool();
+  const ctx = new Context({ ...contextOptions, overlapPolicy: "queue" });
+  const started: string[] = [];
+  const { promise: gate, resolve: openGate } = Promise.withResolvers<void>();
+
+  const queuedRun = (name: string, options?: RunOptions) =>
+    run(ctx, async () => {
+      started.push(name);
+      if (name === "first") {
+        await gate;
+      }
+    }, options);
+
+  const first = queuedRun("first");
+  const controller = new AbortController();
+  const aborted = queuedRun("aborted", { signal: controller.signal });
+  const last = queuedRun("last");
+  controller.abort();
+
+  // The aborted run rejects while the run before it is still in flight.
+  await assertRejects(() => aborted, RunAbortedError);
+  assertEquals(started, ["first"]);
+  openGate();
+  await first;
+  await last;
+  assertEquals(started, ["first", "last"]);
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function nestedQueuedRunIsRejected() {
+  const testPool = createBoxedNumberTestPool();
+  const ctx = new Context({ ...contextOptions, overlapPolicy: "queue" });
+  const nestedRuns: Promise<unknown>[] = [];
+  const nest = proc(function nestBody(output: Box<number>) {
+    nestedRuns.push(run(ctx, () => {}));
+    output.value = 0;
+  });
+
+  // A run nested in a body function or an invocation body would wait for
+  // the run it is nested in, which waits for the body.
+  await run(ctx, ({ $d }) => {
+    nestedRuns.push(run(ctx, () => {}));
+    nest($d(new Box<number>()));
+  });
+  assertEquals(nestedRuns.length, 2);
+  for (const nestedRun of nestedRuns) {
+    await assertRejects(() => nestedRun, Error, "must not be nested");
+  }
+
+  // After the body awaits, a nested run cannot be told from an independent
+  // one: it is queued, and only its signal ends the wait.
+  let nestedStarted = false;
+  await run(ctx, async () => {
+    await Promise.resolve();
+    await assertRejects(
+      () =>
+        run(ctx, () => {
+          nestedStarted = true;
+        }, { signal: AbortSignal.timeout(10) }),
+      RunAbortedError,
+    );
+  });
+  assertEquals(nestedStarted, false);
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
 Deno.test(async function failedRunIsNotSkippedOnResubmission() {
   const testPool = createBoxedNumberTestPool();
   let pCount = 0;
@@ -1446,6 +1597,182 @@ Deno.test(async function failedRunInvalidatesExecutedInvocations() {
   testPool.assertNoError();
 });
 
+Deno.test(async function failedRunCommitsPartialResults() {
+  // With partial results committed, the invocations whose entire upstream
+  // completed keep their results across a failure, so the next run redoes
+  // only the failed part.
+  const testPool = createBoxedNumberTestPool();
+  const producer = createCountingMemoAdd(testPool);
+  const { add, getCount } = createCountingAdd(testPool);
+  let shouldThrow = true;
+  let failingCount = 0;
+  const failing = proc(function failingBody(out: Box<number>, x: Box<number>) {
+    failingCount++;
+    if (shouldThrow) {
+      throw new Error("failure requested");
+    }
+    out.value = x.value;
+  });
+
+  const ctx = new Context({ ...contextOptions, commitPartialResults: true });
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const out = new Box<number>();
+  const outFail = new Box<number>();
+  const tracker = createVersionTracker();
+  const failTracker = createVersionTracker();
+
+  const doRun = () =>
+    run(ctx, ({ $s, $d }) => {
+      const m = producer.memoAdd($s(a, v(1)), $s(b, v(1)));
+      add($d(out, tracker.version, tracker.setVersion), m, $s(b, v(1)));
+      failing($d(outFail, failTracker.version, failTracker.setVersion), m);
+    });
+
+  await assertRejects(doRun, Error, "failure requested");
+  assertEquals(out.value, 5);
+  assertEquals(producer.getCount(), 1);
+  assertEquals(getCount(), 1);
+  assertEquals(failingCount, 1);
+  // Only the destination written by a completed invocation is reported.
+  assertEquals(tracker.calls, 1);
+  assertEquals(failTracker.calls, 0);
+
+  // The memoized producer and the completed writer are skipped, and the
+  // failed invocation reads the retained buffer.
+  shouldThrow = false;
+  const report = await doRun();
+  assertEquals(producer.getCount(), 1);
+  assertEquals(getCount(), 1);
+  assertEquals(failingCount, 2);
+  assertEquals(outFail.value, 3);
+  assertEquals(failTracker.calls, 1);
+  assertEquals(report.numExecuted, 1);
+  assertEquals(report.numRetainedBuffersReused, 1);
+
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function failedRunCommitsPartialResultsPerRun() {
+  const testPool = createBoxedNumberTestPool();
+  const { add, pureAdd, getCount } = createCountingAdd(testPool);
+  let shouldThrow = true;
+  const failing = proc(function failingBody(out: Box<number>, x: Box<number>) {
+    if (shouldThrow) {
+      throw new Error("failure requested");
+    }
+    out.value = x.value;
+  });
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const out = new Box<number>();
+  const outFail = new Box<number>();
+  const tracker = createVersionTracker();
+  const failTracker = createVersionTracker();
+
+  const doRun = (commitPartialResults?: boolean) =>
+    run(ctx, ({ $s, $d }) => {
+      add(
+        $d(out, tracker.version, tracker.setVersion),
+        $s(a, v(1)),
+        $s(b, v(1)),
+      );
+      // The failing invocation is downstream of an executed intermediate,
+      // which completes without being reported.
+      failing(
+        $d(outFail, failTracker.version, failTracker.setVersion),
+        pureAdd($s(a, v(1)), $s(b, v(1))),
+      );
+    }, { commitPartialResults });
+
+  // The context commits nothing by default.
+  await assertRejects(() => doRun(), Error, "failure requested");
+  assertEquals(getCount(), 2);
+  assertEquals(tracker.calls, 0);
+
+  // The run option overrides it.
+  await assertRejects(() => doRun(true), Error, "failure requested");
+  assertEquals(getCount(), 4);
+  assertEquals(tracker.calls, 1);
+
+  // The writer of out is skipped; the intermediate is recomputed, since
+  // plain intermediates are not retained.
+  shouldThrow = false;
+  await doRun();
+  assertEquals(getCount(), 5);
+  assertEquals(out.value, 3);
+  assertEquals(outFail.value, 3);
+  assertEquals(failTracker.calls, 1);
+  testPool.assertNoError();
+});
+
+Deno.test(async function failedRunKeepsTransactionalDestinationRecords() {
+  // Unlike a plain destination, a transactional destination is untouched by
+  // a failed run, so the record of its writer still describes it and is
+  // kept.
+  const testPool = createBoxedNumberTestPool();
+  const { add, getCount } = createCountingAdd(testPool);
+  let shouldThrow = false;
+  const failing = proc(function failingBody(out: Box<number>, x: Box<number>) {
+    if (shouldThrow) {
+      throw new Error("failure requested");
+    }
+    out.value = x.value;
+  });
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const c = Box.withValue(7);
+  const out = new Box<number>();
+  const tracker = createVersionTracker();
+  let aVersion = 1;
+
+  const doRun = () =>
+    run(ctx, ({ $s, $d, $t }) => {
+      add(
+        $t(
+          out,
+          {
+            provide: () => testPool.provide(),
+            commit: (destination, staged) => {
+              destination.value = staged.value;
+            },
+          },
+          tracker.version,
+          tracker.setVersion,
+        ),
+        $s(a, v(aVersion)),
+        $s(b, v(1)),
+      );
+      failing($d(new Box<number>()), $s(c, v(1)));
+    });
+
+  await doRun();
+  assertEquals(out.value, 3);
+  assertEquals(getCount(), 1);
+
+  a.value = 100;
+  aVersion = 2;
+  shouldThrow = true;
+  await assertRejects(doRun, Error, "failure requested");
+  assertEquals(getCount(), 2);
+  assertEquals(out.value, 3);
+  assertEquals(tracker.calls, 1);
+
+  // The stored claim still matches the content, so add is skipped.
+  a.value = 1;
+  aVersion = 1;
+  shouldThrow = false;
+  await doRun();
+  assertEquals(getCount(), 2);
+  assertEquals(out.value, 3);
+  testPool.assertNoError();
+});
+
 Deno.test(async function unversionedRunEvictsCommittedRecords() {
   // A fully unversioned run skips the incremental pass, but it may still
   // overwrite destinations that committed records describe, so it evicts
@@ -1486,3 +1813,432 @@ Deno.test(async function unversionedRunEvictsCommittedRecords() {
   assertEquals(out.value, 3);
   testPool.assertNoError();
 });
+
+Deno.test(async function abortedRunInvalidatesStartedWriters() {
+  // An aborted run is handled like a failed one: invocations that started
+  // may have overwritten their destinations without reporting versions, so
+  // their records must not be trusted afterwards.
+  const testPool = createBoxedNumberTestPool();
+  const { add, getCount } = createCountingAdd(testPool);
+  let controller = new AbortController();
+  const aborting = proc(
+    function abortingBody(out: Box<number>, x: Box<number>) {
+      controller.abort();
+      out.value = x.value;
+    },
+  );
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const c = Box.withValue(7);
+  const out = new Box<number>();
+  const tracker = createVersionTracker();
+  let aVersion = 1;
+
+  const doRun = () =>
+    run(ctx, ({ $s, $d }) => {
+      add(
+        $d(out, tracker.version, tracker.setVersion),
+        $s(a, v(aVersion)),
+        $s(b, v(1)),
+      );
+      aborting($d(new Box<number>()), $s(c, v(1)));
+    }, { signal: controller.signal });
+
+  await assertRejects(doRun, RunAbortedError);
+  assertEquals(out.value, 3);
+  assertEquals(getCount(), 1);
+  assertEquals(tracker.calls, 0);
+
+  // Nothing was committed: the same submission executes again.
+  controller = new AbortController();
+  const unaborted = () =>
+    run(ctx, ({ $s, $d }) => {
+      add(
+        $d(out, tracker.version, tracker.setVersion),
+        $s(a, v(aVersion)),
+        $s(b, v(1)),
+      );
+    });
+  await unaborted();
+  assertEquals(getCount(), 2);
+  assertEquals(tracker.calls, 1);
+
+  // The writer overwrites out in an aborted run, then the caller reverts a.
+  a.value = 100;
+  aVersion = 2;
+  await assertRejects(doRun, RunAbortedError);
+  assertEquals(getCount(), 3);
+  assertEquals(out.value, 102);
+  assertEquals(tracker.calls, 1);
+
+  a.value = 1;
+  aVersion = 1;
+  await unaborted();
+  assertEquals(getCount(), 4);
+  assertEquals(out.value, 3);
+  testPool.assertNoError();
+});
+
+Deno.test(async function compiledPlanSkipsUpToDateInvocations() {
+  const testPool = createBoxedNumberTestPool();
+  const { add, pureAdd, getCount } = createCountingAdd(testPool);
+  const { memoAdd, getCount: getMemoCount } = createCountingMemoAdd(testPool);
+
+  const ctx = new Context(contextOptions);
+  const compiled = await compile(ctx, ({ $s, $d }) => {
+    const a = $s<Box<number>>("a");
+    const b = $s<Box<number>>("b");
+    add($d("sum"), pureAdd(a, b), memoAdd(a, a));
+  });
+
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const sum = new Box<number>();
+  const tracker = createVersionTracker();
+  const execute = (aVersion: number, bVersion: number) =>
+    compiled.execute({
+      sources: {
+        a: { value: a, version: aVersion },
+        b: { value: b, version: bVersion },
+      },
+      destinations: {
+        sum: {
+          value: sum,
+          version: tracker.version,
+          setVersion: tracker.setVersion,
+        },
+      },
+    });
+
+  await execute(1, 1);
+  assertEquals(sum.value, 5);
+  assertEquals(getCount(), 2);
+  assertEquals(getMemoCount(), 1);
+
+  // Nothing changed, so everything is skipped.
+  await execute(1, 1);
+  assertEquals(getCount(), 2);
+  assertEquals(getMemoCount(), 1);
+
+  // Only the chain through b reruns; the memoized sum of a is reused.
+  b.value = 3;
+  await execute(1, 2);
+  assertEquals(sum.value, 6);
+  assertEquals(getCount(), 4);
+  assertEquals(getMemoCount(), 1);
+  assertEquals(tracker.calls, 3);
+
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function inspectMarksSkippedInvocations() {
+  const testPool = createBoxedNumberTestPool();
+  const { add, getCount } = createCountingAdd(testPool);
+  const { memoAdd, getCount: getMemoCount } = createCountingMemoAdd(testPool);
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const c = Box.withValue(5);
+  const out = new Box<number>();
+  const tracker = createVersionTracker();
+
+  const body = (cVersion: number) => ({ $s, $d }: RunContext) => {
+    const s = memoAdd($s(a, v(1)), $s(b, v(1)));
+    add($d(out, tracker.version, tracker.setVersion), s, $s(c, v(cVersion)));
+  };
+  const skipped = async (cVersion: number) =>
+    (await inspect(ctx, body(cVersion))).invocations.map((invocation) =>
+      invocation.skipped
+    );
+
+  // Nothing is recorded yet, so nothing is skipped.
+  assertEquals(await skipped(1), [false, false]);
+
+  await run(ctx, body(1));
+  assertEquals(out.value, 8);
+  assertEquals(getCount(), 1);
+  assertEquals(getMemoCount(), 1);
+
+  assertEquals(await skipped(1), [true, true]);
+  // Only the consumer of the changed source would rerun; the memoized sum
+  // is reused.
+  assertEquals(await skipped(2), [true, false]);
+
+  // Inspections neither execute nor commit, so the run still skips
+  // everything.
+  await run(ctx, body(1));
+  assertEquals(getCount(), 1);
+  assertEquals(getMemoCount(), 1);
+
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function dryRunReportsReasons() {
+  const testPool = createBoxedNumberTestPool();
+  const { add, pureAdd, getCount } = createCountingAdd(testPool);
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const c = Box.withValue(5);
+  const out = new Box<number>();
+  const tracker = createVersionTracker();
+
+  const body = (cVersion?: number) => ({ $s, $d }: RunContext) => {
+    const s = pureAdd($s(a, v(1)), $s(b, v(1)));
+    add(
+      $d(out, tracker.version, tracker.setVersion),
+      s,
+      $s(c, cVersion == null ? undefined : v(cVersion)),
+    );
+  };
+  const reasons = async (cVersion?: number) => {
+    const report = await dryRun(ctx, body(cVersion));
+    assertEquals(
+      report.numSkipped,
+      report.invocations.filter(({ action }) => action === "skip").length,
+    );
+    assertEquals(
+      report.numExecuted + report.numSkipped,
+      report.invocations.length,
+    );
+    return report.invocations.map(({ reason }) => reason);
+  };
+
+  assertEquals(await reasons(1), ["changed", "changed"]);
+
+  await run(ctx, body(1));
+  assertEquals(getCount(), 2);
+
+  assertEquals(await reasons(1), ["upToDate", "upToDate"]);
+  // The sum of a and b is unchanged, but it is not retained.
+  assertEquals(await reasons(2), ["neededDownstream", "changed"]);
+  // An unversioned source always counts as changed.
+  assertEquals(await reasons(), ["neededDownstream", "changed"]);
+
+  // Dry runs neither execute nor commit, so the run still skips everything.
+  await run(ctx, body(1));
+  assertEquals(getCount(), 2);
+
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function dryRunOfUnversionedPlan() {
+  const testPool = createBoxedNumberTestPool();
+  const { add, pureAdd, getCount } = createCountingAdd(testPool);
+
+  const ctx = new Context(contextOptions);
+  const report = await dryRun(ctx, ({ $s, $d }) => {
+    const a = $s(Box.withValue(1));
+    add($d(new Box<number>()), pureAdd(a, a), a);
+  });
+  assertEquals(report.numExecuted, 2);
+  assertEquals(report.numSkipped, 0);
+  assertEquals(
+    report.invocations.map(({ procName, invocationID, action, reason }) => ({
+      procName,
+      invocationID,
+      action,
+      reason,
+    })),
+    [
+      {
+        procName: "addBody",
+        invocationID: 1,
+        action: "execute",
+        reason: "unversioned",
+      },
+      {
+        procName: "addBody",
+        invocationID: 2,
+        action: "execute",
+        reason: "unversioned",
+      },
+    ],
+  );
+  assertEquals(getCount(), 0);
+
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function runReportCountsSkipsAndRetainedBuffers() {
+  const testPool = createBoxedNumberTestPool();
+  const { add } = createCountingAdd(testPool);
+  const { memoAdd } = createCountingMemoAdd(testPool);
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const c = Box.withValue(5);
+  const out = new Box<number>();
+  const tracker = createVersionTracker();
+  const doRun = (aVersion: number, cVersion: number) =>
+    run(ctx, ({ $s, $d }) => {
+      const s = memoAdd($s(a, v(aVersion)), $s(a, v(aVersion)));
+      add($d(out, tracker.version, tracker.setVersion), s, $s(c, v(cVersion)));
+    });
+  const counts = ({
+    numExecuted,
+    numSkipped,
+    numBuffersAcquired,
+    numBuffersReleased,
+    numRetainedBuffersReused,
+    changedDestinations,
+  }: RunReport) => ({
+    numExecuted,
+    numSkipped,
+    numBuffersAcquired,
+    numBuffersReleased,
+    numRetainedBuffersReused,
+    changedDestinations,
+  });
+
+  // The memoized sum is retained instead of released.
+  assertEquals(counts(await doRun(1, 1)), {
+    numExecuted: 2,
+    numSkipped: 0,
+    numBuffersAcquired: 1,
+    numBuffersReleased: 0,
+    numRetainedBuffersReused: 0,
+    changedDestinations: [out],
+  });
+  assertEquals(counts(await doRun(1, 2)), {
+    numExecuted: 1,
+    numSkipped: 1,
+    numBuffersAcquired: 0,
+    numBuffersReleased: 0,
+    numRetainedBuffersReused: 1,
+    changedDestinations: [out],
+  });
+  // The new sum replaces the retained one.
+  assertEquals(counts(await doRun(2, 2)), {
+    numExecuted: 2,
+    numSkipped: 0,
+    numBuffersAcquired: 1,
+    numBuffersReleased: 1,
+    numRetainedBuffersReused: 0,
+    changedDestinations: [out],
+  });
+  assertEquals(counts(await doRun(2, 2)), {
+    numExecuted: 0,
+    numSkipped: 2,
+    numBuffersAcquired: 0,
+    numBuffersReleased: 0,
+    numRetainedBuffersReused: 0,
+    changedDestinations: [],
+  });
+
+  ctx[Symbol.dispose]();
+  testPool.assertNoError();
+});
+
+Deno.test(async function runReportOmitsUnchangedDestinations() {
+  const testPool = createBoxedNumberTestPool();
+  const split = procN(
+    function splitBody(
+      [double, triple]: [Box<number>, Box<number>],
+      x: Box<number>,
+    ) {
+      double.value = x.value * 2;
+      triple.value = x.value * 3;
+    },
+  );
+
+  const ctx = new Context(contextOptions);
+  const x = Box.withValue(5);
+  const outDouble = new Box<number>();
+  const outTriple = new Box<number>();
+  const trackerDouble = createVersionTracker();
+  const trackerTriple = createVersionTracker();
+  const doRun = () =>
+    run(ctx, ({ $s, $d }) => {
+      split(
+        [
+          $d(outDouble, trackerDouble.version, trackerDouble.setVersion),
+          $d(outTriple, trackerTriple.version, trackerTriple.setVersion),
+        ],
+        $s(x, v(1)),
+      );
+    });
+
+  assertEquals((await doRun()).changedDestinations, [outDouble, outTriple]);
+
+  // Only the overwritten destination changes when the invocation re-runs;
+  // its sibling gets the content it already held.
+  outTriple.value = -1;
+  trackerTriple.version = v(0);
+  const report = await doRun();
+  assertEquals(report.numExecuted, 1);
+  assertEquals(report.changedDestinations, [outTriple]);
+  testPool.assertNoError();
+});
+
+Deno.test(async function tracerReceivesIncrementalEvents() {
+  const testPool = createBoxedNumberTestPool();
+  const { add } = createCountingAdd(testPool);
+  const { memoAdd } = createCountingMemoAdd(testPool);
+
+  let events: TraceEvent[] = [];
+  const ctx = new Context({
+    ...contextOptions,
+    tracer: (event) => events.push(event),
+  });
+  const a = Box.withValue(1);
+  const c = Box.withValue(5);
+  const out = new Box<number>();
+  const tracker = createVersionTracker();
+  const doRun = async (aVersion: number, cVersion: number) => {
+    events = [];
+    await run(ctx, ({ $s, $d }) => {
+      const s = memoAdd($s(a, v(aVersion)), $s(a, v(aVersion)));
+      add($d(out, tracker.version, tracker.setVersion), s, $s(c, v(cVersion)));
+    });
+    return events.map((event) => event.type).filter((type) =>
+      type !== "invocationReady" && type !== "invocationStart" &&
+      type !== "invocationEnd"
+    );
+  };
+
+  assertEquals(await doRun(1, 1), [
+    "planStart",
+    "inPlaceDecision",
+    "inPlaceDecision",
+    "bufferAcquire",
+    "graphCommit",
+    "bufferRetain",
+    "planEnd",
+  ]);
+  assertEquals(await doRun(1, 2), [
+    "planStart",
+    "invocationSkip",
+    "inPlaceDecision",
+    "graphCommit",
+    "planEnd",
+  ]);
+  // The new sum replaces the retained one.
+  assertEquals(await doRun(2, 2), [
+    "planStart",
+    "inPlaceDecision",
+    "inPlaceDecision",
+    "bufferAcquire",
+    "graphCommit",
+    "bufferEvict",
+    "bufferRelease",
+    "bufferRetain",
+    "planEnd",
+  ]);
+
+  events = [];
+  ctx[Symbol.dispose]();
+  assertEquals(events.map((event) => event.type), [
+    "bufferEvict",
+    "bufferRelease",
+  ]);
+  testPool.assertNoError();
+});
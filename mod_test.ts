@@ -1,4 +1,5 @@
 import {
+  assert,
   assertEquals,
   assertFalse,
   assertRejects,
@@ -6,20 +7,35 @@ import {
 } from "@std/assert";
 import { delay } from "@std/async";
 import {
+  compile,
   Context,
+  criticalPathScheduler,
   type DisposableWrap,
+  FailFastError,
   type Handle,
+  inspect,
+  type InvocationDescriptor,
+  InvocationError,
+  InvocationTimeoutError,
   proc,
   procI,
   procN,
   procNI1,
   procNIAll,
+  type ProcOptions,
   provider,
+  type RetryPolicy,
   run,
+  RunAbortedError,
+  type RunContext,
+  type RunReport,
+  type Scheduler,
+  type Staging,
   toFunc,
   toFuncM,
   toFuncN,
   toFuncNM,
+  type TraceEvent,
 } from "./mod.ts";
 import { Pool } from "./_testutils/pool.ts";
 import { Box } from "./_testutils/box.ts";
@@ -370,6 +386,64 @@ Deno.test(async function cycleFailsBeforeAnythingRuns() {
   assertEquals(out, new Array(2));
 });
 
+Deno.test(async function wiringDiagnostics(t) {
+  const add = proc(
+    function addBody(result: number[], l: number[], r: number[]) {
+      for (let i = 0; i < result.length; i++) {
+        result[i] = l[i] + r[i];
+      }
+    },
+  );
+  const body = ({ $s, $d }: RunContext) => {
+    const out = $d([0], undefined, undefined, "out");
+    add(out, $s([1]), $s([2]));
+    add($d([0]), out, $s([3]));
+  };
+
+  await t.step(async function reportsCyclePath() {
+    const error = await assertRejects(
+      () =>
+        run(new Context(contextOptions), ({ $s, $e }) => {
+          const a = $e([0], undefined, undefined, "a");
+          const b = $e([0], undefined, undefined, "b");
+          const s = $s([1], undefined, "s");
+          add(a, b, s);
+          add(b, a, s);
+        }),
+      Error,
+      "dependency cycle and cannot be executed: addBody(out=b, in=a, in=s) -> addBody(out=a, in=b, in=s) -> addBody(out=b, in=a, in=s)",
+    );
+    assertFalse(error.message.includes("created at"));
+  });
+
+  await t.step(async function omitsCreationSitesByDefault() {
+    const error = await assertRejects(
+      () => run(new Context(contextOptions), body),
+      Error,
+      "destination handle is read: out in addBody(out=destination#4, in=out, in=source#5)",
+    );
+    assertFalse(error.message.includes("created at"));
+  });
+
+  await t.step(async function reportsCreationSitesInDebugMode() {
+    const error = await assertRejects(
+      () => run(new Context({ ...contextOptions, debug: true }), body),
+      Error,
+      "destination handle is read: out in addBody(out=destination#4, in=out, in=source#5)",
+    );
+    const lines = error.message.split("\n");
+    assertEquals(lines.length, 3);
+    assert(
+      lines[1].startsWith(
+        "  addBody(out=destination#4, in=out, in=source#5) created at ",
+      ),
+    );
+    assert(lines[1].includes("mod_test.ts:"));
+    assert(lines[2].startsWith("  out created at "));
+    assert(lines[2].includes("mod_test.ts:"));
+  });
+});
+
 Deno.test(async function memoizedFunc(t) {
   const add = proc(
     function addBody(result: number[], l: number[], r: number[]) {
@@ -601,6 +675,449 @@ Deno.test(async function disposeDuringRunIsRejected() {
   ctx[Symbol.dispose]();
 });
 
+Deno.test(async function abort(t) {
+  await t.step(async function abortedSignalStartsNothing() {
+    const testPool = createBoxedNumberTestPool();
+    let count = 0;
+    const add = proc(
+      function addBody(result: Box<number>, l: Box<number>, r: Box<number>) {
+        count++;
+        result.value = l.value + r.value;
+      },
+    );
+    const pureAdd = toFunc(add, () => testPool.provide());
+
+    const controller = new AbortController();
+    controller.abort("stop");
+    const output = new Box<number>();
+    const error = await assertRejects(
+      () =>
+        run(new Context(contextOptions), ({ $s, $d }) => {
+          const s = pureAdd($s(Box.withValue(1)), $s(Box.withValue(2)));
+          add($d(output), s, $s(Box.withValue(3)));
+        }, { signal: controller.signal }),
+      RunAbortedError,
+    );
+    assertEquals(error.cause, "stop");
+    assertEquals(count, 0);
+    assertFalse(output.isSet);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function runningInvocationsDrainBeforeRejection() {
+    const testPool = createBoxedNumberTestPool();
+    const controller = new AbortController();
+    const log: string[] = [];
+
+    const slowAdd = proc(
+      async function slowAddBody(
+        result: Box<number>,
+        l: Box<number>,
+        r: Box<number>,
+      ) {
+        log.push("slow start");
+        controller.abort();
+        await delay(10);
+        log.push(`slow observes ${controller.signal.aborted}`);
+        result.value = l.value + r.value;
+      },
+    );
+    const pureSlowAdd = toFunc(slowAdd, () => testPool.provide());
+    const add = proc(
+      function addBody(result: Box<number>, l: Box<number>, r: Box<number>) {
+        log.push("add");
+        result.value = l.value + r.value;
+      },
+    );
+    const pureAdd = toFunc(add, () => testPool.provide());
+
+    const ctx = new Context(contextOptions);
+    const output = new Box<number>();
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          const s1 = pureSlowAdd($s(Box.withValue(1)), $s(Box.withValue(2)));
+          const s2 = pureAdd(s1, $s(Box.withValue(3)));
+          add($d(output), s2, s1);
+        }, { signal: controller.signal }),
+      RunAbortedError,
+    );
+
+    // The running invocation finished; its consumers never started, and
+    // every intermediate went back to the provider.
+    assertEquals(log, ["slow start", "slow observes true"]);
+    assertFalse(output.isSet);
+    testPool.assertNoError();
+
+    // The context accepts runs again.
+    await run(ctx, ({ $s, $d }) => {
+      add($d(output), $s(Box.withValue(1)), $s(Box.withValue(2)));
+    });
+    assertEquals(output.value, 3);
+  });
+});
+
+Deno.test(async function failurePolicy(t) {
+  const testPool = createBoxedNumberTestPool();
+  const log: string[] = [];
+  const fail = proc(function failBody(_result: Box<number>, _x: Box<number>) {
+    log.push("fail");
+    throw new Error("test");
+  });
+  const pureFail = toFunc(fail, () => testPool.provide());
+  const copy = proc(function copyBody(result: Box<number>, x: Box<number>) {
+    log.push("copy");
+    result.value = x.value;
+  });
+  const pureCopy = toFunc(copy, () => testPool.provide());
+
+  const body = ({ $s, $d }: RunContext) => {
+    copy($d(new Box<number>()), pureFail($s(Box.withValue(1))));
+    copy($d(new Box<number>()), pureCopy($s(Box.withValue(2))));
+  };
+
+  await t.step(async function continueRunsIndependentBranches() {
+    log.length = 0;
+    await assertRejects(
+      () => run(new Context(contextOptions), body),
+      Error,
+      "test",
+    );
+    assertEquals(log, ["fail", "copy", "copy"]);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function failFastStopsScheduling() {
+    log.length = 0;
+    const ctx = new Context({ ...contextOptions, failurePolicy: "failFast" });
+    const error = await assertRejects(() => run(ctx, body), FailFastError);
+    // The invocation started alongside the failure is drained, but its
+    // consumer is never started.
+    assertEquals(log, ["fail", "copy"]);
+    assertEquals(error.errors.length, 1);
+    const cause = error.cause as InvocationError;
+    assertEquals(cause.invocation.procName, "failBody");
+    assertEquals((cause.cause as Error).message, "test");
+    // Only the consumer of the failed invocation is downstream of it.
+    assertEquals(cause.unstartedInvocations.length, 1);
+    assertEquals(error.unstartedInvocations.length, 2);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function runOptionOverridesContext() {
+    log.length = 0;
+    await assertRejects(
+      () =>
+        run(new Context(contextOptions), body, { failurePolicy: "failFast" }),
+      FailFastError,
+    );
+    assertEquals(log, ["fail", "copy"]);
+
+    log.length = 0;
+    const ctx = new Context({ ...contextOptions, failurePolicy: "failFast" });
+    await assertRejects(
+      () => run(ctx, body, { failurePolicy: "continue" }),
+      Error,
+      "test",
+    );
+    assertEquals(log, ["fail", "copy", "copy"]);
+    testPool.assertNoError();
+  });
+});
+
+Deno.test(async function invocationError(t) {
+  const testPool = createBoxedNumberTestPool();
+  const failInPlace = procI(
+    function failOutOfPlace(_result: Box<number>, _x: Box<number>) {
+      throw new Error("out-of-place failure");
+    },
+    function failInPlace(_inout: Box<number>) {
+      throw new Error("in-place failure");
+    },
+  );
+  const pureFailInPlace = toFunc(failInPlace, () => testPool.provide());
+  const copy = proc(function copyBody(result: Box<number>, x: Box<number>) {
+    result.value = x.value;
+  });
+  const pureCopy = toFunc(copy, () => testPool.provide());
+
+  await t.step(async function wrapsTheCause() {
+    const error = await assertRejects(
+      () =>
+        run(new Context(contextOptions), ({ $s, $d }) => {
+          const x = pureCopy($s(Box.withValue(1), undefined, "x"));
+          copy($d(new Box<number>()), pureCopy(pureFailInPlace(x)));
+        }),
+      InvocationError,
+      "invocation failed in failOutOfPlace(out=intermediate#4, in=intermediate#2): in-place failure",
+    );
+    assertEquals((error.cause as Error).message, "in-place failure");
+    assertEquals(error.invocation.procName, "failOutOfPlace");
+    assertEquals(error.invocation.invocationID, 2);
+    assertEquals(error.invocation.inPlace, true);
+    assertEquals(error.invocation.inputKinds, ["intermediate"]);
+    assertEquals(error.invocation.outputKinds, ["intermediate"]);
+    assertEquals(
+      error.unstartedInvocations.map((invocation: InvocationDescriptor) =>
+        invocation.invocationID
+      ),
+      [3, 4],
+    );
+    testPool.assertNoError();
+  });
+
+  await t.step(async function aggregatesIndependentFailures() {
+    const error = await assertRejects(
+      () =>
+        run(new Context(contextOptions), ({ $s, $d }) => {
+          const x = $s(Box.withValue(1));
+          failInPlace($d(new Box<number>()), x);
+          failInPlace($d(new Box<number>()), x);
+        }),
+      AggregateError,
+    );
+    assertEquals(error.errors.length, 2);
+    for (const e of error.errors) {
+      assert(e instanceof InvocationError);
+      assertEquals((e.cause as Error).message, "out-of-place failure");
+      assertEquals(e.invocation.inPlace, false);
+      assertEquals(e.unstartedInvocations, []);
+    }
+    testPool.assertNoError();
+  });
+});
+
+Deno.test(async function schedulerReceivesInvocationDescriptors() {
+  const testPool = createBoxedNumberTestPool();
+  const double = procI(
+    function doubleOutOfPlace(output: Box<number>, input0: Box<number>) {
+      output.value = input0.value * 2;
+    },
+    function doubleInPlace(inout: Box<number>) {
+      inout.value = inout.value * 2;
+    },
+  );
+  const pureDouble = toFunc(double, () => testPool.provide());
+
+  const descriptors: InvocationDescriptor[] = [];
+  const scheduler: Scheduler = {
+    spawn(task, invocation) {
+      descriptors.push(invocation);
+      return task();
+    },
+  };
+  // A scheduler written against the bare task remains compatible.
+  const _legacyScheduler: Scheduler = { spawn: (task) => task() };
+
+  const output = new Box<number>();
+  await run(new Context({ ...contextOptions, scheduler }), ({ $s, $d }) => {
+    const s = pureDouble($s(Box.withValue(1)));
+    double($d(output), pureDouble(s));
+  });
+
+  assertEquals(output.value, 8);
+  assertEquals(
+    descriptors.map((d) => ({
+      procName: d.procName,
+      inputKinds: d.inputKinds,
+      outputKinds: d.outputKinds,
+      inPlace: d.inPlace,
+      numDownstreamInvocations: d.numDownstreamInvocations,
+    })),
+    [{
+      procName: "doubleOutOfPlace",
+      inputKinds: ["source"],
+      outputKinds: ["intermediate"],
+      inPlace: false,
+      numDownstreamInvocations: 1,
+    }, {
+      procName: "doubleOutOfPlace",
+      inputKinds: ["intermediate"],
+      outputKinds: ["intermediate"],
+      inPlace: true,
+      numDownstreamInvocations: 1,
+    }, {
+      procName: "doubleOutOfPlace",
+      inputKinds: ["intermediate"],
+      outputKinds: ["destination"],
+      inPlace: false,
+      numDownstreamInvocations: 0,
+    }],
+  );
+  assertEquals(new Set(descriptors.map((d) => d.invocationID)).size, 3);
+  assertEquals(new Set(descriptors.map((d) => d.procID)).size, 1);
+  testPool.assertNoError();
+});
+
+Deno.test(async function criticalPathSchedulerRunsLongChainsFirst() {
+  const testPool = createBoxedNumberTestPool();
+  const log: string[] = [];
+  const step = (name: string, cost?: number) =>
+    proc(function stepBody(result: Box<number>, x: Box<number>) {
+      log.push(name);
+      result.value = x.value + 1;
+    }, { cost });
+  const leaf = step("leaf");
+  const head = step("head");
+  const pureHead = toFunc(head, () => testPool.provide());
+  const tail = step("tail");
+  const pureTail = toFunc(tail, () => testPool.provide());
+  const heavy = step("heavy", 10);
+
+  const body = ({ $s, $d }: RunContext) => {
+    leaf($d(new Box<number>()), $s(Box.withValue(0)));
+    leaf($d(new Box<number>()), $s(Box.withValue(0)));
+    tail($d(new Box<number>()), pureTail(pureHead($s(Box.withValue(0)))));
+    heavy($d(new Box<number>()), $s(Box.withValue(0)));
+  };
+
+  const scheduler = criticalPathScheduler({ concurrency: 1 });
+  await run(new Context({ ...contextOptions, scheduler }), body);
+  // The cost hint ranks the heavy leaf first, and the three-step chain
+  // beats the cheap leaves until its last step ties with them; ties keep
+  // their submission order.
+  assertEquals(log, ["heavy", "head", "tail", "leaf", "leaf", "tail"]);
+  testPool.assertNoError();
+});
+
+Deno.test(async function memoryBudget(t) {
+  let live = 0;
+  let peak = 0;
+  const provide = provider(
+    (size: number) => {
+      live += size;
+      peak = Math.max(peak, live);
+      return new Array<number>(size).fill(0);
+    },
+    (x) => {
+      live -= x.length;
+    },
+    (size: number) => size,
+  );
+  const fill = proc(function fillBody(output: number[], x: Box<number>) {
+    output.fill(x.value);
+  });
+  const pureFill = toFunc(fill, (x) => provide(x.value));
+  const sum = proc(function sumBody(result: Box<number>, x: number[]) {
+    result.value = x.reduce((a, b) => a + b, 0);
+  });
+
+  const results = [new Box<number>(), new Box<number>(), new Box<number>()];
+  const body = ({ $s, $d }: RunContext) => {
+    for (const [i, result] of results.entries()) {
+      sum($d(result), pureFill($s(Box.withValue(i + 1))));
+    }
+  };
+
+  await t.step(async function unboundedByDefault() {
+    peak = 0;
+    await run(new Context(contextOptions), body);
+    assertEquals(results.map((x) => x.value), [1, 4, 9]);
+    assertEquals(peak, 1 + 2 + 3);
+    assertEquals(live, 0);
+  });
+
+  await t.step(async function delaysInvocationsOverBudget() {
+    peak = 0;
+    await run(new Context({ ...contextOptions, memoryBudget: 3 }), body);
+    assertEquals(results.map((x) => x.value), [1, 4, 9]);
+    assertEquals(peak, 3);
+    assertEquals(live, 0);
+  });
+
+  await t.step(async function progressesWhenNothingFits() {
+    peak = 0;
+    await run(new Context({ ...contextOptions, memoryBudget: 0 }), body);
+    assertEquals(results.map((x) => x.value), [1, 4, 9]);
+    assertEquals(peak, 3);
+    assertEquals(live, 0);
+  });
+
+  await t.step(async function keepsDelayedInvocationsInOrder() {
+    const started: number[] = [];
+    const recordingFill = proc(
+      function recordingFillBody(output: number[], x: Box<number>) {
+        started.push(x.value);
+        output.fill(x.value);
+      },
+    );
+    const pureRecordingFill = toFunc(recordingFill, (x) => provide(x.value));
+    const sizes = [2, 3, 1];
+    peak = 0;
+    await run(
+      new Context({ ...contextOptions, memoryBudget: 3 }),
+      ({ $s, $d }) => {
+        for (const [i, result] of results.entries()) {
+          sum($d(result), pureRecordingFill($s(Box.withValue(sizes[i]))));
+        }
+      },
+    );
+    // The smallest invocation fits next to the first one, but it does not
+    // overtake the delayed one.
+    assertEquals(started, [2, 3, 1]);
+    assertEquals(results.map((x) => x.value), [4, 9, 1]);
+    assertEquals(peak, 3);
+    assertEquals(live, 0);
+  });
+
+  await t.step(async function chargesRetriedOutputs() {
+    let failed = false;
+    const flakyFill = proc(
+      function flakyFillBody(output: number[], x: Box<number>) {
+        output.fill(x.value);
+        if (x.value === 1 && !failed) {
+          failed = true;
+          throw new Error("failure requested");
+        }
+      },
+      { retry: { maxAttempts: 2 } },
+    );
+    const pureFlakyFill = toFunc(flakyFill, (x) => provide(x.value));
+    peak = 0;
+    await run(
+      new Context({ ...contextOptions, memoryBudget: 3 }),
+      ({ $s, $d }) => {
+        for (const [i, result] of results.entries()) {
+          sum($d(result), pureFlakyFill($s(Box.withValue(i + 1))));
+        }
+      },
+    );
+    assert(failed);
+    assertEquals(results.map((x) => x.value), [1, 4, 9]);
+    assertEquals(peak, 3);
+    assertEquals(live, 0);
+  });
+
+  await t.step(function rejectsNegativeBudget() {
+    assertThrows(
+      () => new Context({ memoryBudget: -1 }),
+      Error,
+      "memoryBudget must be non-negative",
+    );
+  });
+});
+
+Deno.test(async function deepChain() {
+  const testPool = createBoxedNumberTestPool();
+  const inc = proc(function incBody(output: Box<number>, input: Box<number>) {
+    output.value = input.value + 1;
+  });
+  const pureInc = toFunc(inc, () => testPool.provide());
+
+  // deep enough to overflow the call stack with a recursive traversal
+  const length = 20000;
+  const result = new Box<number>();
+  await run(new Context(contextOptions), ({ $s, $d }) => {
+    let x = $s(Box.withValue(0));
+    for (let i = 0; i < length - 1; i++) {
+      x = pureInc(x);
+    }
+    inc($d(result), x);
+  });
+  assertEquals(result.value, length);
+  testPool.assertNoError();
+});
+
 Deno.test(async function empty() {
   await run(new Context(contextOptions), () => {});
 });
@@ -808,8 +1325,440 @@ Deno.test(async function asyncCalc() {
     add(result, result3, $s(Box.withValue(5)));
   });
 
-  assertEquals(resultBody.value, 26);
-  testPool.assertNoError();
+  assertEquals(resultBody.value, 26);
+  testPool.assertNoError();
+});
+
+Deno.test(async function asyncBodyFn(t) {
+  const testPool = createBoxedNumberTestPool();
+  const add = proc(
+    function addBody(result: Box<number>, l: Box<number>, r: Box<number>) {
+      result.value = l.value + r.value;
+    },
+  );
+  const pureAdd = toFunc(add, () => testPool.provide());
+
+  await t.step(async function awaitsBodyBeforeRunning() {
+    const resultBody = new Box<number>();
+    await run(new Context(contextOptions), async ({ $s, $d }) => {
+      const l = $s(Box.withValue(1));
+      await delay(0);
+      const r = $s(Box.withValue(2));
+      add($d(resultBody), pureAdd(l, r), $s(Box.withValue(3)));
+    });
+    assertEquals(resultBody.value, 6);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function staysPlanningWhileBodyPending() {
+    const ctx = new Context(contextOptions);
+    const { promise: loaded, resolve: load } = Promise.withResolvers<void>();
+    const inFlight = run(ctx, async () => {
+      await loaded;
+    });
+    await assertRejects(() => run(ctx, () => {}), Error, "must not overlap");
+    assertThrows(() => ctx[Symbol.dispose](), Error, "run is in flight");
+    load();
+    await inFlight;
+    await run(ctx, () => {});
+  });
+
+  await t.step(async function rejectsHandlesAfterBodyResolved() {
+    let lateWiring: RunContext | undefined;
+    let late: Handle<Box<number>> | undefined;
+    await run(new Context(contextOptions), (runContext) => {
+      lateWiring = runContext;
+      late = runContext.$s(Box.withValue(1));
+    });
+    assertThrows(
+      () => lateWiring!.$s(Box.withValue(1)),
+      Error,
+      "before the body function of the run settles",
+    );
+    assertThrows(
+      () => lateWiring!.$d(new Box<number>()),
+      Error,
+      "before the body function of the run settles",
+    );
+    assertThrows(
+      () => pureAdd(late!, late!),
+      Error,
+      "before the body function of the run settles",
+    );
+    testPool.assertNoError();
+  });
+
+  await t.step(async function bodyRejectionReleasesContext() {
+    const ctx = new Context(contextOptions);
+    await assertRejects(
+      () =>
+        run(ctx, async () => {
+          await delay(0);
+          throw new Error("test");
+        }),
+      Error,
+      "test",
+    );
+    const resultBody = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      add($d(resultBody), $s(Box.withValue(1)), $s(Box.withValue(2)));
+    });
+    assertEquals(resultBody.value, 3);
+  });
+});
+
+Deno.test(async function compiledPlan(t) {
+  const testPool = createBoxedNumberTestPool();
+  const log: string[] = [];
+  const add = procI(
+    function addOutOfPlace(
+      result: Box<number>,
+      l: Box<number>,
+      r: Box<number>,
+    ) {
+      log.push("outOfPlace");
+      result.value = l.value + r.value;
+    },
+    function addInPlace(inout: Box<number>, r: Box<number>) {
+      log.push("inPlace");
+      inout.value += r.value;
+    },
+  );
+  const pureAdd = toFunc(add, () => testPool.provide());
+
+  const ctx = new Context(contextOptions);
+  const compiled = await compile(ctx, ({ $s, $d }) => {
+    const a = $s<Box<number>>("a");
+    const b = $s<Box<number>>("b");
+    add($d("out"), pureAdd(pureAdd(a, b), a), b);
+  });
+
+  await t.step(async function executesWithNewBindings() {
+    assertEquals(compiled.sources, ["a", "b"]);
+    assertEquals(compiled.destinations, ["out"]);
+    for (const x of [1, 10]) {
+      log.length = 0;
+      const out = new Box<number>();
+      await compiled.execute({
+        sources: {
+          a: { value: Box.withValue(x) },
+          b: { value: Box.withValue(2) },
+        },
+        destinations: { out: { value: out } },
+      });
+      assertEquals(out.value, x + 2 + x + 2);
+      // The in-place decision made at compilation holds for each execution.
+      assertEquals(log, ["outOfPlace", "inPlace", "outOfPlace"]);
+      testPool.assertNoError();
+    }
+  });
+
+  await t.step(async function rejectsInvalidBindings() {
+    const a = Box.withValue(1);
+    const b = Box.withValue(2);
+    await assertRejects(
+      () =>
+        compiled.execute({
+          sources: { a: { value: a } },
+          destinations: { out: { value: new Box<number>() } },
+        }),
+      Error,
+      "the source is not bound: b",
+    );
+    await assertRejects(
+      () =>
+        compiled.execute({
+          sources: { a: { value: a }, b: { value: b }, c: { value: b } },
+          destinations: { out: { value: new Box<number>() } },
+        }),
+      Error,
+      "unknown source: c",
+    );
+    await assertRejects(
+      () =>
+        compiled.execute({
+          sources: { a: { value: a }, b: { value: b } },
+          destinations: { out: { value: a } },
+        }),
+      Error,
+      "already specified as input",
+    );
+    // A value failing to bind releases the context too.
+    await assertRejects(
+      () =>
+        compiled.execute({
+          sources: { a: { value: a }, b: { value: 2 as unknown as object } },
+          destinations: { out: { value: new Box<number>() } },
+        }),
+      TypeError,
+    );
+    // The context is left usable.
+    const out = new Box<number>();
+    await compiled.execute({
+      sources: { a: { value: a }, b: { value: b } },
+      destinations: { out: { value: out } },
+    });
+    assertEquals(out.value, 6);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function executionsMustNotOverlap() {
+    const bindings = {
+      sources: {
+        a: { value: Box.withValue(1) },
+        b: { value: Box.withValue(2) },
+      },
+      destinations: { out: { value: new Box<number>() } },
+    };
+    const inFlight = compiled.execute(bindings);
+    await assertRejects(
+      () => compiled.execute(bindings),
+      Error,
+      "must not overlap",
+    );
+    await assertRejects(() => run(ctx, () => {}), Error, "must not overlap");
+    await inFlight;
+    testPool.assertNoError();
+  });
+
+  await t.step(async function rejectsInvalidWiring() {
+    await assertRejects(
+      () =>
+        compile(ctx, ({ $d }) => {
+          $d("out");
+          $d("out");
+        }),
+      Error,
+      "the destination is already specified: out",
+    );
+    await assertRejects(
+      () =>
+        compile(ctx, ({ $s, $d }) => {
+          add($d("out"), $d("other"), $s("a"));
+        }),
+      Error,
+      "destination handle is read",
+    );
+  });
+});
+
+Deno.test(async function inspectPlan(t) {
+  const testPool = createBoxedNumberTestPool();
+  const log: string[] = [];
+  const add = procI(
+    function addOutOfPlace(
+      result: Box<number>,
+      l: Box<number>,
+      r: Box<number>,
+    ) {
+      log.push("outOfPlace");
+      result.value = l.value + r.value;
+    },
+    function addInPlace(inout: Box<number>, r: Box<number>) {
+      log.push("inPlace");
+      inout.value += r.value;
+    },
+  );
+  const pureAdd = toFunc(add, () => testPool.provide());
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+  const out = new Box<number>();
+
+  await t.step(async function describesWiringWithoutExecuting() {
+    const graph = await inspect(ctx, ({ $s, $d }) => {
+      const sa = $s(a);
+      const sb = $s(b);
+      add($d(out), pureAdd(pureAdd(sa, sb), sa), sb);
+    });
+    assertEquals(graph.handles, [
+      { id: 1, kind: "source" },
+      { id: 2, kind: "source" },
+      { id: 3, kind: "destination" },
+      { id: 4, kind: "intermediate" },
+      { id: 5, kind: "intermediate" },
+    ]);
+    assertEquals(
+      graph.invocations.map(({ id, inputs, outputs, inPlace, skipped }) => ({
+        id,
+        inputs,
+        outputs,
+        inPlace,
+        skipped,
+      })),
+      [
+        { id: 1, inputs: [1, 2], outputs: [4], inPlace: false, skipped: false },
+        { id: 2, inputs: [4, 1], outputs: [5], inPlace: true, skipped: false },
+        { id: 3, inputs: [5, 2], outputs: [3], inPlace: false, skipped: false },
+      ],
+    );
+    assertEquals(
+      new Set(graph.invocations.map(({ procName }) => procName)),
+      new Set(["addOutOfPlace"]),
+    );
+    // The graph is plain data.
+    assertEquals(JSON.parse(JSON.stringify(graph)), graph);
+    assertEquals(log, []);
+    assertFalse(out.isSet);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function rejectsInvalidWiring() {
+    await assertRejects(
+      () =>
+        inspect(ctx, ({ $d }) => {
+          add($d(out), $d(new Box<number>()), $d(new Box<number>()));
+        }),
+      Error,
+      "destination handle is read",
+    );
+    // A failed inspection leaves the context usable.
+    await run(ctx, ({ $s, $d }) => {
+      add($d(out), $s(a), $s(b));
+    });
+    assertEquals(out.value, 3);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function mustNotOverlapWithRuns() {
+    const inFlight = run(ctx, async ({ $s, $d }) => {
+      await delay(0);
+      add($d(out), $s(a), $s(b));
+    });
+    await assertRejects(
+      () => inspect(ctx, () => {}),
+      Error,
+      "must not overlap",
+    );
+    await inFlight;
+    testPool.assertNoError();
+  });
+});
+
+Deno.test(async function namesAndLabels(t) {
+  const testPool = createBoxedNumberTestPool();
+  const add = proc(
+    function addBody(result: Box<number>, l: Box<number>, r: Box<number>) {
+      result.value = l.value + r.value;
+    },
+  );
+  const blur = proc(
+    function (result: Box<number>, image: Box<number>) {
+      result.value = image.value;
+    },
+    { name: "blur" },
+  );
+  const pureAdd = toFunc(add, () => testPool.provide());
+
+  const ctx = new Context(contextOptions);
+  const image = Box.withValue(1);
+  const frameBuffer = new Box<number>();
+
+  await t.step(async function exportsNamesAndLabels() {
+    const graph = await inspect(ctx, ({ $s, $d }) => {
+      const i = $s(image, undefined, "image");
+      blur($d(frameBuffer, undefined, undefined, "frameBuffer"), i);
+      add($d(new Box<number>()), i, i);
+    });
+    assertEquals(graph.handles, [
+      { id: 1, kind: "source", label: "image" },
+      { id: 2, kind: "destination", label: "frameBuffer" },
+      { id: 3, kind: "destination" },
+    ]);
+    assertEquals(
+      graph.invocations.map(({ procName }) => procName),
+      ["blur", "addBody"],
+    );
+  });
+
+  await t.step(async function labelsWiringErrors() {
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          const f = $d(frameBuffer, undefined, undefined, "frameBuffer");
+          blur(f, $s(image, undefined, "image"));
+          blur($d(new Box<number>()), f);
+        }),
+      Error,
+      "destination handle is read: frameBuffer in blur(out=destination#3, in=frameBuffer)",
+    );
+  });
+
+  await t.step(async function labelsCompiledSlotsByName() {
+    await assertRejects(
+      () =>
+        compile(ctx, ({ $s, $d }) => {
+          add($d("out"), pureAdd($s("a"), $s("b")), $d("other"));
+        }),
+      Error,
+      "destination handle is read: other in addBody(out=out, in=intermediate#4, in=other)",
+    );
+    testPool.assertNoError();
+  });
+});
+
+Deno.test(async function runReport(t) {
+  const testPool = createBoxedNumberTestPool();
+  const add = procI(
+    function addOutOfPlace(
+      result: Box<number>,
+      l: Box<number>,
+      r: Box<number>,
+    ) {
+      result.value = l.value + r.value;
+    },
+    function addInPlace(inout: Box<number>, r: Box<number>) {
+      inout.value += r.value;
+    },
+  );
+  const pureAdd = toFunc(add, () => testPool.provide());
+
+  const ctx = new Context(contextOptions);
+  const a = Box.withValue(1);
+  const b = Box.withValue(2);
+
+  const assertReport = (report: RunReport, out: Box<number>) => {
+    assertEquals(report.numExecuted, 3);
+    assertEquals(report.numSkipped, 0);
+    assertEquals(report.numInPlace, 1);
+    assertEquals(report.procs.length, 1);
+    assertEquals(report.procs[0].procName, "addOutOfPlace");
+    assertEquals(report.procs[0].numInvocations, 3);
+    assert(report.procs[0].wallTime >= 0);
+    assert(report.planningTime >= 0);
+    assert(report.pruningTime >= 0);
+    assert(report.executionTime >= 0);
+    // The in-place invocation takes over the buffer of its input.
+    assertEquals(report.numBuffersAcquired, 1);
+    assertEquals(report.numBuffersReleased, 1);
+    assertEquals(report.numRetainedBuffersReused, 0);
+    assertEquals(report.changedDestinations, [out]);
+  };
+
+  await t.step(async function reportsRun() {
+    const out = new Box<number>();
+    const report = await run(ctx, ({ $s, $d }) => {
+      add($d(out), pureAdd(pureAdd($s(a), $s(b)), $s(a)), $s(b));
+    });
+    assertEquals(out.value, 6);
+    assertReport(report, out);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function reportsCompiledExecution() {
+    const compiled = await compile(ctx, ({ $s, $d }) => {
+      add($d("out"), pureAdd(pureAdd($s("a"), $s("b")), $s("a")), $s("b"));
+    });
+    const out = new Box<number>();
+    const report = await compiled.execute({
+      sources: { a: { value: a }, b: { value: b } },
+      destinations: { out: { value: out } },
+    });
+    assertEquals(out.value, 6);
+    assertReport(report, out);
+    testPool.assertNoError();
+  });
 });
 
 Deno.test(async function middleware(t) {
@@ -935,6 +1884,601 @@ Deno.test(async function middleware(t) {
   });
 });
 
+Deno.test(async function middlewareInfo(t) {
+  const testPool = createBoxedNumberTestPool();
+  const double = procI(
+    function doubleOutOfPlace(output: Box<number>, input: Box<number>) {
+      output.value = input.value * 2;
+    },
+    function doubleInPlace(inout: Box<number>) {
+      inout.value *= 2;
+    },
+  );
+  const pureDouble = toFunc(double, () => testPool.provide());
+
+  await t.step(async function describesInvocations() {
+    const seen: unknown[] = [];
+    const ctx = new Context({
+      ...contextOptions,
+      middlewares: [async (next, info) => {
+        const inputs = info.inputs().map((input) =>
+          (input as Box<number>).value
+        );
+        await next();
+        const outputs = info.outputs().map((output) =>
+          (output as Box<number>).value
+        );
+        seen.push({
+          procName: info.procName,
+          inPlace: info.inPlace,
+          inputs,
+          outputs,
+        });
+      }],
+    });
+    const output = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      double($d(output), pureDouble(pureDouble($s(Box.withValue(1)))));
+    });
+    assertEquals(output.value, 8);
+    assertEquals(seen, [
+      {
+        procName: "doubleOutOfPlace",
+        inPlace: false,
+        inputs: [1],
+        outputs: [2],
+      },
+      {
+        procName: "doubleOutOfPlace",
+        inPlace: true,
+        inputs: [2],
+        outputs: [4],
+      },
+      {
+        procName: "doubleOutOfPlace",
+        inPlace: false,
+        inputs: [4],
+        outputs: [8],
+      },
+    ]);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function keepsUnconsumedOutputs() {
+    const outputs: unknown[] = [];
+    const ctx = new Context({
+      ...contextOptions,
+      middlewares: [async (next, info) => {
+        await next();
+        outputs.push(
+          ...info.outputs().map((output) => (output as Box<number>).value),
+        );
+      }],
+    });
+    await run(ctx, ({ $s }) => {
+      pureDouble($s(Box.withValue(3)));
+    });
+    assertEquals(outputs, [6]);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function rejectsMisuse() {
+    const ctx = new Context({
+      ...contextOptions,
+      middlewares: [async (next, info) => {
+        assertThrows(() => info.outputs(), Error, "after the body completes");
+        await next();
+        assertThrows(() => info.inputs(), Error, "before calling next");
+      }],
+    });
+    const output = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      double($d(output), $s(Box.withValue(1)));
+    });
+    assertEquals(output.value, 2);
+    testPool.assertNoError();
+  });
+});
+
+Deno.test(async function retry(t) {
+  const testPool = createBoxedNumberTestPool();
+  const ctx = new Context({ ...contextOptions, reportError: () => {} });
+
+  const createFlakyAdd = (numFailures: number, retry: RetryPolicy) => {
+    const attempts: boolean[] = [];
+    const add = proc(function flakyAdd(
+      result: Box<number>,
+      l: Box<number>,
+      r: Box<number>,
+    ) {
+      // Records whether the attempt got a fresh buffer.
+      attempts.push(!result.isSet);
+      result.value = l.value + r.value;
+      if (attempts.length <= numFailures) {
+        throw new Error(`failure ${attempts.length}`);
+      }
+    }, { retry });
+    return { add, pureAdd: toFunc(add, () => testPool.provide()), attempts };
+  };
+  const copy = proc(function copy(output: Box<number>, input: Box<number>) {
+    output.value = input.value;
+  });
+
+  await t.step(async function retriesWithFreshOutputs() {
+    const backoffs: number[] = [];
+    const { pureAdd, attempts } = createFlakyAdd(2, {
+      maxAttempts: 3,
+      backoff: (numFailedAttempts) => {
+        backoffs.push(numFailedAttempts);
+        return 1;
+      },
+    });
+    const output = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      copy($d(output), pureAdd($s(Box.withValue(1)), $s(Box.withValue(2))));
+    });
+    assertEquals(output.value, 3);
+    assertEquals(attempts, [true, true, true]);
+    assertEquals(backoffs, [1, 2]);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function givesUp() {
+    const { add, attempts } = createFlakyAdd(3, { maxAttempts: 3 });
+    const error = await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          add(
+            $d(new Box<number>()),
+            $s(Box.withValue(1)),
+            $s(Box.withValue(2)),
+          );
+        }),
+      InvocationError,
+    );
+    assertEquals((error.cause as Error).message, "failure 3");
+    assertEquals(attempts.length, 3);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function retriesOnlyRetryableErrors() {
+    const { add, attempts } = createFlakyAdd(1, {
+      maxAttempts: 3,
+      retryable: (e) => !(e instanceof Error && e.message === "failure 1"),
+    });
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          add(
+            $d(new Box<number>()),
+            $s(Box.withValue(1)),
+            $s(Box.withValue(2)),
+          );
+        }),
+      InvocationError,
+    );
+    assertEquals(attempts.length, 1);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function stopsRetryingStoppedRuns() {
+    const controller = new AbortController();
+    const { add, attempts } = createFlakyAdd(Infinity, {
+      maxAttempts: 5,
+      backoff: 10_000,
+      retryable: () => {
+        controller.abort();
+        return true;
+      },
+    });
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          add(
+            $d(new Box<number>()),
+            $s(Box.withValue(1)),
+            $s(Box.withValue(2)),
+          );
+        }, { signal: controller.signal }),
+      RunAbortedError,
+    );
+    assertEquals(attempts.length, 1);
+
+    const { add: flakyAdd, attempts: flakyAttempts } = createFlakyAdd(
+      Infinity,
+      { maxAttempts: 5, backoff: 10_000 },
+    );
+    const failing = proc(function failing(_output: Box<number>) {
+      throw new Error("failure requested");
+    });
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          flakyAdd(
+            $d(new Box<number>()),
+            $s(Box.withValue(1)),
+            $s(Box.withValue(2)),
+          );
+          failing($d(new Box<number>()));
+        }, { failurePolicy: "failFast" }),
+      FailFastError,
+    );
+    assertEquals(flakyAttempts.length, 1);
+    testPool.assertNoError();
+  });
+
+  await t.step(function rejectsInvalidPolicies() {
+    assertThrows(
+      () => proc(() => {}, { retry: { maxAttempts: 0 } }),
+      Error,
+      "maxAttempts must be a positive integer",
+    );
+    // An in-place body consumes its input, so it could not be retried.
+    assertThrows(
+      () => procI(() => {}, () => {}, { retry: { maxAttempts: 2 } }),
+      Error,
+      "retry must not be given to a proc with an in-place body",
+    );
+    assertThrows(
+      () => procNI1(() => {}, () => {}, { retry: { maxAttempts: 2 } }),
+      Error,
+      "retry must not be given to a proc with an in-place body",
+    );
+    assertThrows(
+      () => procNIAll(() => {}, () => {}, { retry: { maxAttempts: 2 } }),
+      Error,
+      "retry must not be given to a proc with an in-place body",
+    );
+  });
+});
+
+Deno.test(async function timeout(t) {
+  const testPool = createBoxedNumberTestPool();
+  const inc = proc(function inc(output: Box<number>, input: Box<number>) {
+    output.value = input.value + 1;
+  });
+  const pureInc = toFunc(inc, () => testPool.provide());
+  const createHanging = (procOptions: ProcOptions) => {
+    const { promise, resolve } = Promise.withResolvers<void>();
+    const hang = proc(async function hang(
+      output: Box<number>,
+      input: Box<number>,
+    ) {
+      await promise;
+      output.value = input.value;
+    }, procOptions);
+    return {
+      hang,
+      pureHang: toFunc(hang, () => testPool.provide()),
+      resume: resolve,
+    };
+  };
+
+  await t.step(async function abandonsHungInvocations() {
+    const { pureHang, resume } = createHanging({ timeout: 10 });
+    const ctx = new Context({ ...contextOptions, reportError: () => {} });
+    const output = new Box<number>();
+    const error = await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          inc($d(output), pureHang(pureInc($s(Box.withValue(1)))));
+        }),
+      InvocationError,
+    );
+    assert(error.cause instanceof InvocationTimeoutError);
+    assertEquals(error.cause.timeout, 10);
+    assertEquals(error.invocation.procName, "hang");
+    assertEquals(error.unstartedInvocations.length, 1);
+    assertFalse(output.isSet);
+
+    // The buffers of the abandoned body are released when it settles.
+    resume();
+    await delay(0);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function appliesContextDefault() {
+    const { hang, resume } = createHanging({});
+    const { hang: patient, resume: resumePatient } = createHanging({
+      timeout: Infinity,
+    });
+    const ctx = new Context({
+      ...contextOptions,
+      reportError: () => {},
+      invocationTimeout: 10,
+    });
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          hang($d(new Box<number>()), $s(Box.withValue(1)));
+        }),
+      InvocationError,
+      "invocation timed out after 10 ms",
+    );
+    resume();
+
+    setTimeout(resumePatient, 20);
+    const output = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      patient($d(output), $s(Box.withValue(2)));
+    });
+    assertEquals(output.value, 2);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function keepsRetainedBuffersOfAbandonedBodies() {
+    const { hang, resume } = createHanging({ timeout: 10 });
+    const errors: unknown[] = [];
+    const ctx = new Context({
+      ...contextOptions,
+      reportError: (e) => errors.push(e),
+    });
+    const memoInc = toFuncM(inc, () => testPool.provide());
+    const input = Box.withValue(1);
+
+    await run(ctx, ({ $s, $d }) => {
+      inc($d(new Box<number>()), memoInc($s(input, 1)));
+    });
+
+    // The abandoned body reads the buffer retained by the previous run.
+    const output = new Box<number>();
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d }) => {
+          hang($d(output), memoInc($s(input, 1)));
+        }),
+      InvocationError,
+    );
+
+    // A run of another wiring evicts the retained buffer, and so does the
+    // disposal of the context, but it is released only after the body
+    // settles.
+    await run(ctx, ({ $s, $d }) => {
+      inc($d(new Box<number>()), $s(Box.withValue(5), 1));
+    });
+    ctx[Symbol.dispose]();
+    resume();
+    await delay(0);
+    assertEquals(errors, []);
+    assertEquals(output.value, 2);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function compiledPlanWaitsForAbandonedBodies() {
+    const { hang, resume } = createHanging({ timeout: 10 });
+    const ctx = new Context({ ...contextOptions, reportError: () => {} });
+    const compiled = await compile(ctx, ({ $s, $d }) => {
+      hang($d("output"), pureInc($s("input")));
+    });
+    const execute = (output: Box<number>) =>
+      compiled.execute({
+        sources: { input: { value: Box.withValue(1) } },
+        destinations: { output: { value: output } },
+      });
+
+    await assertRejects(() => execute(new Box<number>()), InvocationError);
+    await assertRejects(
+      () => execute(new Box<number>()),
+      Error,
+      "an invocation abandoned after its timeout is still running",
+    );
+
+    resume();
+    await delay(0);
+    const output = new Box<number>();
+    await execute(output);
+    assertEquals(output.value, 2);
+    testPool.assertNoError();
+  });
+
+  await t.step(function rejectsInvalidTimeouts() {
+    assertThrows(
+      () => proc(() => {}, { timeout: 0 }),
+      Error,
+      "timeout must be a positive number",
+    );
+    assertThrows(
+      () => new Context({ invocationTimeout: -1 }),
+      Error,
+      "invocationTimeout must be positive",
+    );
+  });
+});
+
+Deno.test(async function transactionalDestination(t) {
+  const testPool = createBoxedNumberTestPool();
+  const ctx = new Context({ ...contextOptions, reportError: () => {} });
+  const staging: Staging<Box<number>> = {
+    provide: () => testPool.provide(),
+    commit: (destination, staged) => {
+      destination.value = staged.value;
+    },
+  };
+
+  let shouldThrow = false;
+  const add = proc(function add(
+    result: Box<number>,
+    l: Box<number>,
+    r: Box<number>,
+  ) {
+    result.value = l.value + r.value;
+  });
+  const failing = proc(function failing(result: Box<number>) {
+    if (shouldThrow) {
+      throw new Error("failure requested");
+    }
+    result.value = 0;
+  });
+
+  await t.step(async function commitsAfterSuccess() {
+    const output = Box.withValue(0);
+    const written: Box<number>[] = [];
+    const write = proc(function write(result: Box<number>, x: Box<number>) {
+      written.push(result);
+      result.value = x.value;
+    });
+    await run(ctx, ({ $s, $t }) => {
+      write($t(output, staging), $s(Box.withValue(3)));
+    });
+    // The writer wrote a staging buffer, which was committed afterwards.
+    assertEquals(written.length, 1);
+    assert(written[0] !== output);
+    assertEquals(output.value, 3);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function showsStagedOutputsToMiddlewares() {
+    const seen: number[] = [];
+    const observedCtx = new Context({
+      ...contextOptions,
+      middlewares: [async (next, info) => {
+        await next();
+        seen.push(...info.outputs().map((o) => (o as Box<number>).value));
+      }],
+    });
+    const output = Box.withValue(0);
+    await run(observedCtx, ({ $s, $t }) => {
+      add($t(output, staging), $s(Box.withValue(40)), $s(Box.withValue(2)));
+    });
+    assertEquals(seen, [42]);
+    assertEquals(output.value, 42);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function leavesDestinationUntouchedOnFailure() {
+    const output = Box.withValue(0);
+    shouldThrow = true;
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $d, $t }) => {
+          add($t(output, staging), $s(Box.withValue(1)), $s(Box.withValue(2)));
+          failing($d(new Box<number>()));
+        }),
+      InvocationError,
+    );
+    shouldThrow = false;
+    assertEquals(output.value, 0);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function failsWhenCommitThrows() {
+    const output = Box.withValue(0);
+    await assertRejects(
+      () =>
+        run(ctx, ({ $s, $t }) => {
+          add(
+            $t(output, {
+              provide: staging.provide,
+              commit: () => {
+                throw new Error("commit failure");
+              },
+            }),
+            $s(Box.withValue(1)),
+            $s(Box.withValue(2)),
+          );
+        }),
+      Error,
+      "commit failure",
+    );
+    testPool.assertNoError();
+  });
+
+  await t.step(async function bindsStagingInCompiledPlans() {
+    const plan = await compile(ctx, ({ $s, $d }) => {
+      add($d("output"), $s("l"), $s("r"));
+    });
+    const output = Box.withValue(0);
+    await plan.execute({
+      sources: {
+        l: { value: Box.withValue(1) },
+        r: { value: Box.withValue(2) },
+      },
+      destinations: { output: { value: output, staging } },
+    });
+    assertEquals(output.value, 3);
+    testPool.assertNoError();
+  });
+});
+
+Deno.test(async function contextMiddleware(t) {
+  const log: string[] = [];
+  const logging = (name: string) => async (next: () => Promise<void>) => {
+    log.push(`${name} before`);
+    await next();
+    log.push(`${name} after`);
+  };
+  const add = proc(
+    function add(result: Box<number>, l: Box<number>, r: Box<number>) {
+      log.push("add");
+      result.value = l.value + r.value;
+    },
+    { middlewares: [logging("proc")] },
+  );
+  const sub = proc(
+    function sub(result: Box<number>, l: Box<number>, r: Box<number>) {
+      log.push("sub");
+      result.value = l.value - r.value;
+    },
+    { ignoreContextMiddlewares: true },
+  );
+  const ctx = new Context({
+    ...contextOptions,
+    middlewares: [logging("context 1"), logging("context 2")],
+  });
+
+  await t.step(async function wrapsProcMiddlewares() {
+    log.length = 0;
+    const output = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      add($d(output), $s(Box.withValue(1)), $s(Box.withValue(2)));
+    });
+    assertEquals(output.value, 3);
+    assertEquals(log, [
+      "context 1 before",
+      "context 2 before",
+      "proc before",
+      "add",
+      "proc after",
+      "context 2 after",
+      "context 1 after",
+    ]);
+  });
+
+  await t.step(async function optOut() {
+    log.length = 0;
+    const output = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      sub($d(output), $s(Box.withValue(1)), $s(Box.withValue(2)));
+    });
+    assertEquals(output.value, -1);
+    assertEquals(log, ["sub"]);
+  });
+
+  await t.step(async function appliesToCompiledPlans() {
+    log.length = 0;
+    const compiled = await compile(ctx, ({ $s, $d }) => {
+      sub($d("output"), $s("l"), $s("r"));
+      add($d("sum"), $s("l"), $s("r"));
+    });
+    const output = new Box<number>();
+    const sum = new Box<number>();
+    await compiled.execute({
+      sources: {
+        l: { value: Box.withValue(3) },
+        r: { value: Box.withValue(2) },
+      },
+      destinations: { output: { value: output }, sum: { value: sum } },
+    });
+    assertEquals([output.value, sum.value], [1, 5]);
+    assertEquals(log.filter((entry) => entry.startsWith("context")), [
+      "context 1 before",
+      "context 2 before",
+      "context 2 after",
+      "context 1 after",
+    ]);
+  });
+});
+
 Deno.test(async function procIInPlace(t) {
   const testPool = createBoxedNumberTestPool();
 
@@ -2373,3 +3917,96 @@ Deno.test(function types() {
     );
   });
 });
+
+Deno.test(async function tracer(t) {
+  const testPool = createBoxedNumberTestPool();
+  const add = proc(function add(
+    result: Box<number>,
+    l: Box<number>,
+    r: Box<number>,
+  ) {
+    result.value = l.value + r.value;
+  });
+  const pureAdd = toFunc(add, () => testPool.provide());
+
+  await t.step(async function receivesLifecycleEvents() {
+    const events: TraceEvent[] = [];
+    const ctx = new Context({
+      ...contextOptions,
+      tracer: (event) => events.push(event),
+    });
+    const out = new Box<number>();
+    await run(ctx, ({ $s, $d }) => {
+      add(
+        $d(out),
+        pureAdd($s(Box.withValue(1)), $s(Box.withValue(2))),
+        $s(Box.withValue(3)),
+      );
+    });
+    assertEquals(out.value, 6);
+    assertEquals(
+      events.map((event) => [
+        event.type,
+        "invocation" in event
+          ? event.invocation.invocationID
+          : "handleID" in event
+          ? event.handleID
+          : undefined,
+      ]),
+      [
+        ["planStart", undefined],
+        ["inPlaceDecision", 1],
+        ["invocationReady", 1],
+        ["inPlaceDecision", 2],
+        ["invocationStart", 1],
+        ["bufferAcquire", 4],
+        ["invocationEnd", 1],
+        ["invocationReady", 2],
+        ["invocationStart", 2],
+        ["bufferRelease", 4],
+        ["invocationEnd", 2],
+        ["planEnd", undefined],
+      ],
+    );
+    const [planStart, inPlaceDecision] = events;
+    assertEquals(planStart.type === "planStart" && planStart.numInvocations, 2);
+    assert(
+      inPlaceDecision.type === "inPlaceDecision" &&
+        inPlaceDecision.invocation.outputIDs[0] === 4,
+    );
+    for (let i = 1; i < events.length; i++) {
+      assert(events[i - 1].time <= events[i].time);
+    }
+    testPool.assertNoError();
+  });
+
+  await t.step(async function reportsFailures() {
+    const events: TraceEvent[] = [];
+    const errors: unknown[] = [];
+    const ctx = new Context({
+      ...contextOptions,
+      reportError: (e) => errors.push(e),
+      tracer: (event) => {
+        events.push(event);
+        throw new Error("tracer error");
+      },
+    });
+    const fail = proc(function fail(_: Box<number>) {
+      throw new Error("fail");
+    });
+    await assertRejects(
+      () => run(ctx, ({ $d }) => fail($d(new Box<number>()))),
+      InvocationError,
+    );
+    const end = events.find((event) => event.type === "invocationEnd");
+    assert(end?.type === "invocationEnd" && end.error instanceof Error);
+    assertEquals(events.at(-1), {
+      type: "planEnd",
+      time: events.at(-1)!.time,
+      succeeded: false,
+    });
+    // The errors of the tracer are reported without affecting the run.
+    assertEquals(errors.length, events.length);
+    testPool.assertNoError();
+  });
+});
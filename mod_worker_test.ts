@@ -0,0 +1,82 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { Context, run, toFunc, WorkerPool, workerProc } from "./mod.ts";
+import { contextOptions, createTestPool } from "./_testutils/testpool.ts";
+
+// Spawning workers from local modules requires the read permission.
+const ignore = Deno.permissions.querySync({ name: "read" }).state !== "granted";
+
+const bodies = new URL("./_testutils/worker_bodies.ts", import.meta.url);
+
+Deno.test({ ignore }, async function workerProcs(t) {
+  using pool = new WorkerPool({ size: 2 });
+  const add = workerProc<Float64Array, [Float64Array, Float64Array]>(
+    pool,
+    bodies,
+    "add",
+  );
+  const mulAsync = workerProc<Float64Array, [Float64Array, Float64Array]>(
+    pool,
+    bodies,
+    "mulAsync",
+  );
+
+  await t.step(async function copiesBackOutputs() {
+    const testPool = createTestPool(
+      () => new Float64Array(2),
+      (x) => x.fill(0),
+    );
+    const pureAdd = toFunc(add, () => testPool.provide());
+
+    const result = new Float64Array(2);
+    await run(new Context(contextOptions), ({ $s, $d }) => {
+      const l = $s(new Float64Array([1, 2]));
+      const r = $s(new Float64Array([3, 4]));
+      // ordered by the plan: the multiplication waits for both sums
+      mulAsync($d(result), pureAdd(l, r), pureAdd(r, r));
+    });
+    assertEquals([...result], [4 * 6, 6 * 8]);
+    testPool.assertNoError();
+  });
+
+  await t.step(async function sharesSharedOutputs() {
+    const result = new Float64Array(
+      new SharedArrayBuffer(2 * Float64Array.BYTES_PER_ELEMENT),
+    );
+    await run(new Context(contextOptions), ({ $s, $d }) => {
+      add(
+        $d(result),
+        $s(new Float64Array([1, 2])),
+        $s(new Float64Array([3, 4])),
+      );
+    });
+    assertEquals([...result], [4, 6]);
+  });
+
+  await t.step(async function propagatesBodyFailures() {
+    const fail = workerProc<Float64Array, []>(pool, bodies, "fail");
+    await assertRejects(
+      () =>
+        run(new Context(contextOptions), ({ $d }) => {
+          fail($d(new Float64Array(1)));
+        }),
+      Error,
+      "test",
+    );
+  });
+
+  await t.step(async function rejectsNonBufferOutputs() {
+    await assertRejects(
+      () => pool.exec(bodies, "add", [0], []),
+      Error,
+      "must be a buffer or a view",
+    );
+  });
+});
+
+Deno.test(function workerPoolRejectsInvalidSize() {
+  assertThrows(
+    () => new WorkerPool({ size: 0 }),
+    Error,
+    "size must be at least 1",
+  );
+});